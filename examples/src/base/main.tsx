@@ -13,6 +13,7 @@ import {
   Quat,
   QuatLike,
   UnlitMaterial,
+  useFrame,
   Vec3Like,
   type CameraRef
 } from 'solid-webgpu'
@@ -29,6 +30,33 @@ const Avatar = (props: { position?: Vec3Like; quaternion?: QuatLike }) => {
   )
 }
 
+const Avatars = (props: { p: number }) => {
+  const [r, setR] = createSignal(Quat.create(), { equals: false })
+  useFrame(({ time }) => {
+    setR(v => {
+      Quat.fromEuler(v, 0, 0, time / 20)
+      return v
+    })
+  })
+
+  return (
+    <>
+      <Avatar position={[0, props.p, 0]} quaternion={r()} />
+
+      <Object3D position={[3, 0, 0]} quaternion={r()}>
+        <Avatar position={[1, 0, 0]} />
+      </Object3D>
+
+      <Mesh
+        position={[-3, 0, 0]}
+        geometry={<Plane />}
+        material={<UnlitMaterial albedoTexture={t} />}
+        quaternion={r()}
+      />
+    </>
+  )
+}
+
 const App = () => {
   const [p, setP] = createSignal(0)
   const [camera, setCamera] = createSignal<CameraRef>()
@@ -36,20 +64,10 @@ const App = () => {
 
   createOrbitControl(canvas, camera)
 
-  const [r, setR] = createSignal(Quat.create(), { equals: false })
-  const af = (t: number) => {
-    setR(v => {
-      Quat.fromEuler(v, 0, 0, t / 20)
-      return v
-    })
-    requestAnimationFrame(af)
-  }
-  requestAnimationFrame(af)
-
   return (
     <>
       <Canvas camera={camera()} ref={setCanvas}>
-        <PerspectiveCamera label="main_camera" ref={setCamera} position={[0, 0, 5]} aspect={16 / 9} />
+        <PerspectiveCamera label="main_camera" ref={setCamera} position={[0, 0, 5]} />
         <PunctualLight
           type="spot"
           position={[0, 1.5, 0.5]}
@@ -58,18 +76,7 @@ const App = () => {
           intensity={100}
         />
 
-        <Avatar position={[0, p(), 0]} quaternion={r()} />
-
-        <Object3D position={[3, 0, 0]} quaternion={r()}>
-          <Avatar position={[1, 0, 0]} />
-        </Object3D>
-
-        <Mesh
-          position={[-3, 0, 0]}
-          geometry={<Plane />}
-          material={<UnlitMaterial albedoTexture={t} />}
-          quaternion={r()}
-        />
+        <Avatars p={p()} />
       </Canvas>
 
       <button onClick={() => setP(v => (v + 1) % 5)}>set position</button>
@@ -16,7 +16,7 @@ const App = () => {
 
   return (
     <Canvas camera={camera()} ref={setCanvas}>
-      <PerspectiveCamera label="main_camera" ref={setCamera} position={[0, 0, 5]} aspect={16 / 9} />
+      <PerspectiveCamera label="main_camera" ref={setCamera} position={[0, 0, 5]} />
       <GLTFModel />
     </Canvas>
   )
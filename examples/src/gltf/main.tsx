@@ -1,12 +1,7 @@
-import { createSignal } from 'solid-js'
+import { createSignal, ErrorBoundary, Suspense } from 'solid-js'
 import { render } from 'solid-js/web'
 import { Canvas, createOrbitControl, PerspectiveCamera, PunctualLight, Quat, type CameraRef } from 'solid-webgpu'
-import { loadGLTF } from 'solid-webgpu-gltf'
-
-const { json, scenes } = await loadGLTF('../../static/suzanne.glb')
-const GLTFModel = scenes[0]
-
-console.log(json)
+import { GLTF } from 'solid-webgpu-gltf'
 
 const App = () => {
   const [camera, setCamera] = createSignal<CameraRef>()
@@ -16,7 +11,7 @@ const App = () => {
 
   return (
     <Canvas camera={camera()} ref={setCanvas}>
-      <PerspectiveCamera label="main_camera" ref={setCamera} position={[0, 0, 5]} aspect={16 / 9} />
+      <PerspectiveCamera label="main_camera" ref={setCamera} position={[0, 0, 5]} />
       <PunctualLight
         type="spot"
         position={[0, 5, 5]}
@@ -25,7 +20,16 @@ const App = () => {
         intensity={50}
       />
 
-      <GLTFModel />
+      <ErrorBoundary
+        fallback={e => {
+          console.error(e)
+          return null
+        }}
+      >
+        <Suspense>
+          <GLTF src="../../static/suzanne.glb" />
+        </Suspense>
+      </ErrorBoundary>
     </Canvas>
   )
 }
@@ -0,0 +1,25 @@
+import { createContext, useContext } from 'solid-js'
+import { SetStoreFunction } from 'solid-js/store'
+import { GLTFSceneProps } from './types'
+
+/**
+ * scene node ids of mounted glTF nodes by node index, joints of skins and animation targets resolve through it
+ */
+export type NodesContext = {
+  nodes: Record<number, string>
+  /**
+   * one `Mesh` per primitive of the node's mesh
+   */
+  meshes: Record<number, string[]>
+}
+
+export const _NodesContext = createContext<[NodesContext, SetStoreFunction<NodesContext>]>()
+export const NodesContextProvider = _NodesContext.Provider
+export const useNodesContext = () => useContext(_NodesContext)
+
+/**
+ * props of the mounted glTF scene, named nodes, meshes and materials look up their refs & overrides
+ */
+export const _ScenePropsContext = createContext<GLTFSceneProps>()
+export const ScenePropsContextProvider = _ScenePropsContext.Provider
+export const useScenePropsContext = () => useContext(_ScenePropsContext)
@@ -0,0 +1,172 @@
+import type { TypedArrayConstructor } from 'solid-webgpu'
+import type { DecodedGeometry, DracoAttribute, DracoDecoder } from './types'
+import { createWorkerPool } from './worker_pool'
+
+export type DracoDecoderOptions = {
+  /**
+   * url of a directory holding `draco_wasm_wrapper.js` and `draco_decoder.wasm`,
+   * e.g. `https://www.gstatic.com/draco/versioned/decoders/1.5.7/`
+   */
+  decoderPath: string
+  /**
+   * max number of workers decoding in parallel
+   */
+  workerLimit?: number
+}
+
+type WorkerRequest = {
+  id: number
+  data: Uint8Array
+  attributes: Record<string, DracoAttribute>
+}
+
+type DracoDataType = 'DT_INT8' | 'DT_UINT8' | 'DT_INT16' | 'DT_UINT16' | 'DT_UINT32' | 'DT_FLOAT32'
+
+/**
+ * members of the draco wasm module used by the worker, see `draco_wasm_wrapper.js`
+ */
+type DracoStatus = { ok: () => boolean; error_msg: () => string }
+type DracoBuffer = { Init: (data: Uint8Array, length: number) => void }
+type DracoPointCloud = { ptr: number; num_points: () => number }
+type DracoMesh = DracoPointCloud & { num_faces: () => number }
+type DracoAttributeHandle = { num_components: () => number }
+type DracoWasmDecoder = {
+  GetEncodedGeometryType: (buffer: DracoBuffer) => number
+  DecodeBufferToMesh: (buffer: DracoBuffer, mesh: DracoMesh) => DracoStatus
+  DecodeBufferToPointCloud: (buffer: DracoBuffer, pointCloud: DracoPointCloud) => DracoStatus
+  GetAttributeByUniqueId: (geometry: DracoPointCloud, id: number) => DracoAttributeHandle
+  GetAttributeDataArrayForAllPoints: (
+    geometry: DracoPointCloud,
+    attribute: DracoAttributeHandle,
+    dataType: number,
+    byteLength: number,
+    ptr: number
+  ) => boolean
+  GetTrianglesUInt32Array: (mesh: DracoMesh, byteLength: number, ptr: number) => boolean
+}
+type DracoWasmModule = Record<DracoDataType, number> & {
+  Decoder: new () => DracoWasmDecoder
+  DecoderBuffer: new () => DracoBuffer
+  Mesh: new () => DracoMesh
+  PointCloud: new () => DracoPointCloud
+  TRIANGULAR_MESH: number
+  HEAPF32: Float32Array
+  _malloc: (byteLength: number) => number
+  _free: (ptr: number) => void
+  destroy: (object: object) => void
+}
+
+/**
+ * globals of the worker scope, `DracoDecoderModule` is defined by the imported wrapper
+ */
+declare function importScripts(...urls: string[]): void
+declare function DracoDecoderModule(options: {
+  wasmBinary: ArrayBuffer
+  onModuleLoaded: (module: DracoWasmModule) => void
+}): void
+
+/**
+ * worker body of `createWorkerPool`
+ */
+const dracoWorker = () => {
+  let decoderModule: Promise<DracoWasmModule> | undefined
+
+  const componentTypes: Record<number, [TypedArrayConstructor, DracoDataType]> = {
+    5120: [Int8Array, 'DT_INT8'],
+    5121: [Uint8Array, 'DT_UINT8'],
+    5122: [Int16Array, 'DT_INT16'],
+    5123: [Uint16Array, 'DT_UINT16'],
+    5125: [Uint32Array, 'DT_UINT32'],
+    5126: [Float32Array, 'DT_FLOAT32']
+  }
+
+  const decode = (draco: DracoWasmModule, { data, attributes }: WorkerRequest) => {
+    const decoder = new draco.Decoder()
+    const buffer = new draco.DecoderBuffer()
+    buffer.Init(data, data.byteLength)
+    const mesh = decoder.GetEncodedGeometryType(buffer) === draco.TRIANGULAR_MESH ? new draco.Mesh() : undefined
+    const geometry = mesh ?? new draco.PointCloud()
+    const status = mesh ? decoder.DecodeBufferToMesh(buffer, mesh) : decoder.DecodeBufferToPointCloud(buffer, geometry)
+
+    try {
+      if (!status.ok() || geometry.ptr === 0) {
+        throw new Error(`draco decoding failed: ${status.error_msg()}`)
+      }
+
+      const result: DecodedGeometry = { attributes: {} }
+      for (const [name, { id, componentType }] of Object.entries(attributes)) {
+        const attribute = decoder.GetAttributeByUniqueId(geometry, id)
+        const [ArrayType, dataType] = componentTypes[componentType]
+        const length = geometry.num_points() * attribute.num_components()
+        const byteLength = length * ArrayType.BYTES_PER_ELEMENT
+        const ptr = draco._malloc(byteLength)
+        decoder.GetAttributeDataArrayForAllPoints(geometry, attribute, draco[dataType], byteLength, ptr)
+        result.attributes[name] = new ArrayType(draco.HEAPF32.buffer, ptr, length).slice()
+        draco._free(ptr)
+      }
+
+      if (mesh) {
+        const length = mesh.num_faces() * 3
+        const ptr = draco._malloc(length * 4)
+        decoder.GetTrianglesUInt32Array(mesh, length * 4, ptr)
+        result.index = new Uint32Array(draco.HEAPF32.buffer, ptr, length).slice()
+        draco._free(ptr)
+      }
+      return result
+    } finally {
+      draco.destroy(geometry)
+      draco.destroy(buffer)
+      draco.destroy(decoder)
+    }
+  }
+
+  self.onmessage = async (e: MessageEvent) => {
+    const message = e.data
+    if (message.type === 'init') {
+      decoderModule = new Promise(resolve => {
+        importScripts(message.wrapperURL)
+        DracoDecoderModule({ wasmBinary: message.wasmBinary, onModuleLoaded: resolve })
+      })
+      return
+    }
+
+    const request = message as WorkerRequest
+    try {
+      if (!decoderModule) {
+        throw new Error('draco worker received a task before init')
+      }
+      const result = decode(await decoderModule, request)
+      const transfer = [result.index, ...Object.values(result.attributes)].filter(v => !!v).map(v => v!.buffer)
+      self.postMessage({ id: request.id, result }, { transfer })
+    } catch (error) {
+      self.postMessage({ id: request.id, error: (error as Error).message })
+    }
+  }
+}
+
+/**
+ * `KHR_draco_mesh_compression` decoder running the draco wasm decoder in a pool of workers,
+ * pass it to `loadGLTF` options and `dispose` once loading finished
+ */
+export const createDracoDecoder = (options: DracoDecoderOptions) => {
+  // blob workers resolve relative urls against their `blob:` url
+  const base = new URL(
+    options.decoderPath.endsWith('/') ? options.decoderPath : `${options.decoderPath}/`,
+    location.href
+  ).href
+  const pool = createWorkerPool<DecodedGeometry>({
+    body: dracoWorker,
+    // every worker compiles its own module from the shared binary
+    init: async () => ({
+      wrapperURL: `${base}draco_wasm_wrapper.js`,
+      wasmBinary: await fetch(`${base}draco_decoder.wasm`).then(res => res.arrayBuffer())
+    }),
+    workerLimit: options.workerLimit ?? 4
+  })
+
+  const decoder: DracoDecoder & { dispose: () => void } = {
+    decode: (data, attributes) => pool.run({ data, attributes }),
+    dispose: pool.dispose
+  }
+  return decoder
+}
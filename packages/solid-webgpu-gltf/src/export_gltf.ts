@@ -0,0 +1,560 @@
+import type {
+  GeometryContext,
+  IndexBufferContext,
+  MaterialContext,
+  MeshContext,
+  NodeContext,
+  Object3DContext,
+  PunctualLightContext,
+  SceneContext,
+  TextureSource,
+  VertexBufferContext
+} from 'solid-webgpu'
+import { readVertexAttribute } from 'solid-webgpu'
+import {
+  Accessor,
+  BufferView,
+  GlTF,
+  Image,
+  Material,
+  Mesh,
+  MeshPrimitive,
+  Node,
+  Sampler,
+  Texture,
+  TextureInfo
+} from './generated/glTF'
+import { writeGLB } from './parse_glb'
+
+export type GLTFExportOptions = {
+  /**
+   * id or node of the `Object3D` to export, every top level `Object3D` of the scene without it
+   */
+  root?: string | NodeContext
+  /**
+   * single `.glb` instead of json referencing a separate binary buffer
+   */
+  binary?: boolean
+  /**
+   * uri of the binary buffer in json output, defaults to `scene.bin`
+   */
+  bufferURI?: string
+}
+
+export type GLTFExportResult = {
+  json: GlTF
+  /**
+   * geometry and images referenced by `bufferURI`
+   */
+  bin: ArrayBuffer
+}
+
+const ARRAY_BUFFER = 34962
+const ELEMENT_ARRAY_BUFFER = 34963
+
+/**
+ * attribute of vertex buffers without names, by shader location of built-in materials
+ */
+const builtinAttributeNames = ['POSITION', 'NORMAL', 'TANGENT', 'TEXCOORD_0', 'JOINTS_0', 'WEIGHTS_0']
+
+const componentTypes: Record<string, number> = {
+  sint8: 5120,
+  uint8: 5121,
+  sint16: 5122,
+  uint16: 5123,
+  uint32: 5125,
+  float32: 5126
+}
+
+const accessorTypes: Record<number, Accessor['type']> = { 1: 'SCALAR', 2: 'VEC2', 3: 'VEC3', 4: 'VEC4' }
+
+const topologyModes: Record<GPUPrimitiveTopology, number> = {
+  'point-list': 0,
+  'line-list': 1,
+  'line-strip': 3,
+  'triangle-list': 4,
+  'triangle-strip': 5
+}
+
+const wrapModes: Record<GPUAddressMode, number> = {
+  'clamp-to-edge': 33071,
+  'mirror-repeat': 33648,
+  repeat: 10497
+}
+
+/**
+ * component type, component count & normalization of a vertex format, undefined for formats glTF lacks
+ */
+const parseVertexFormat = (format: GPUVertexFormat) => {
+  const match = format.match(/^(float|uint|sint|unorm|snorm)(8|16|32)(?:x([234]))?$/)
+  if (!match) {
+    return
+  }
+  const [, kind, bits, count] = match
+  const normalized = kind === 'unorm' || kind === 'snorm'
+  const componentType = componentTypes[`${normalized ? kind.replace('norm', 'int') : kind}${bits}`]
+  if (componentType === undefined) {
+    return
+  }
+  return { componentType, components: Number(count ?? 1), normalized }
+}
+
+const minMax = (array: ArrayLike<number>, components: number) => {
+  const min = new Array<number>(components).fill(Infinity)
+  const max = new Array<number>(components).fill(-Infinity)
+  for (let i = 0; i < array.length; i++) {
+    const c = i % components
+    min[c] = Math.min(min[c], array[i])
+    max[c] = Math.max(max[c], array[i])
+  }
+  return { min, max }
+}
+
+/**
+ * attribute names outside the glTF semantics are application specific and need a leading underscore
+ */
+const attributeName = (name: string) =>
+  /^(POSITION|NORMAL|TANGENT|(TEXCOORD|COLOR|JOINTS|WEIGHTS)_\d+)$/.test(name) || name.startsWith('_')
+    ? name
+    : `_${name}`
+
+const encodePNG = async (image: ImageBitmap) => {
+  const canvas = new OffscreenCanvas(image.width, image.height)
+  canvas.getContext('2d')!.drawImage(image, 0, 0)
+  const blob = await canvas.convertToBlob({ type: 'image/png' })
+  return new Uint8Array(await blob.arrayBuffer())
+}
+
+/**
+ * a sampler clamped to the base level maps back to `NEAREST` / `LINEAR` without mipmapping
+ */
+const samplerOf = (descriptor: GPUSamplerDescriptor): Sampler => {
+  const linearMin = descriptor.minFilter === 'linear'
+  const linearMip = descriptor.mipmapFilter === 'linear'
+  const mipmapped = linearMin ? (linearMip ? 9987 : 9985) : linearMip ? 9986 : 9984
+  return {
+    magFilter: descriptor.magFilter === 'linear' ? 9729 : 9728,
+    minFilter: descriptor.lodMaxClamp === 0 ? (linearMin ? 9729 : 9728) : mipmapped,
+    wrapS: wrapModes[descriptor.addressModeU ?? 'clamp-to-edge'],
+    wrapT: wrapModes[descriptor.addressModeV ?? 'clamp-to-edge']
+  }
+}
+
+/**
+ * buffer views appended to a single binary buffer, each aligned to 4 bytes
+ */
+const createBufferWriter = () => {
+  const chunks: Uint8Array[] = []
+  const bufferViews: BufferView[] = []
+  let byteLength = 0
+
+  return {
+    bufferViews,
+    add: (data: ArrayBufferView, target?: number) => {
+      const padding = (4 - (byteLength % 4)) % 4
+      chunks.push(new Uint8Array(padding))
+      byteLength += padding
+      // copied, the source may change before export finishes
+      chunks.push(new Uint8Array(data.buffer, data.byteOffset, data.byteLength).slice())
+      bufferViews.push({ buffer: 0, byteOffset: byteLength, byteLength: data.byteLength, target })
+      byteLength += data.byteLength
+      return bufferViews.length - 1
+    },
+    concat: () => {
+      const bin = new Uint8Array(Math.ceil(byteLength / 4) * 4)
+      let offset = 0
+      for (const chunk of chunks) {
+        bin.set(chunk, offset)
+        offset += chunk.byteLength
+      }
+      return bin.buffer
+    }
+  }
+}
+
+/**
+ * serialize the scene graph below `options.root` with TRS of every `Object3D`, meshes with their geometry,
+ * `PBRMaterial` & `UnlitMaterial` inputs, bitmap textures as PNG and `PunctualLight`s as `KHR_lights_punctual`.
+ * skins, animations, cameras and custom materials are not exported
+ */
+export async function exportGLTF(
+  scene: SceneContext,
+  options: GLTFExportOptions & { binary: true }
+): Promise<ArrayBuffer>
+export async function exportGLTF(
+  scene: SceneContext,
+  options?: GLTFExportOptions & { binary?: false }
+): Promise<GLTFExportResult>
+export async function exportGLTF(
+  scene: SceneContext,
+  options?: GLTFExportOptions
+): Promise<ArrayBuffer | GLTFExportResult>
+export async function exportGLTF(
+  scene: SceneContext,
+  options?: GLTFExportOptions
+): Promise<ArrayBuffer | GLTFExportResult> {
+  const writer = createBufferWriter()
+  const accessors: Accessor[] = []
+  const nodes: Node[] = []
+  const meshes: Mesh[] = []
+  const materials: Material[] = []
+  const textures: Texture[] = []
+  const images: Image[] = []
+  const samplers: Sampler[] = []
+  const lights: Record<string, unknown>[] = []
+  const extensionsUsed = new Set<string>()
+
+  const primitiveCache = new Map<string, MeshPrimitive>()
+  const meshCache = new Map<string, number>()
+  const materialCache = new Map<string, number | undefined>()
+  const imageCache = new Map<ImageBitmap, number>()
+  const samplerCache = new Map<string, number>()
+  const textureCache = new Map<string, number>()
+
+  const addAccessor = (accessor: Accessor, array: ArrayBufferView, target?: number) => {
+    accessors.push({ ...accessor, bufferView: writer.add(array, target) })
+    return accessors.length - 1
+  }
+
+  const writeVertexBuffer = (vertexBuffer: VertexBufferContext, attributes: Record<string, number>) => {
+    const { layout } = vertexBuffer
+    const named = vertexBuffer.attributes.length
+      ? vertexBuffer.attributes
+      : Array.from(layout.attributes, v => ({
+          ...v,
+          name: builtinAttributeNames[v.shaderLocation] ?? `ATTRIBUTE_${v.shaderLocation}`
+        }))
+    for (const attribute of named) {
+      const name = attributeName(attribute.name)
+      const format = parseVertexFormat(attribute.format)
+      if (!format) {
+        console.warn(`gltf export: vertex format ${attribute.format} of ${name} is not supported, skipped`)
+        continue
+      }
+      const { componentType, components, normalized } = format
+      let { array } = readVertexAttribute(vertexBuffer.value(), layout.arrayStride, attribute)
+      if (name === 'TANGENT' && array.every((v, i) => i % 4 === 3 || v === 0)) {
+        // zero tangents stand for derivatives in shader, glTF requires unit vectors
+        continue
+      }
+      let exportedType = componentType
+      if (name.startsWith('JOINTS_') && componentType === componentTypes.uint32) {
+        array = Uint16Array.from(array)
+        exportedType = componentTypes.uint16
+      }
+      const bounds = name === 'POSITION' ? minMax(array, components) : undefined
+      attributes[name] = addAccessor(
+        {
+          componentType: exportedType,
+          count: array.length / components,
+          type: accessorTypes[components],
+          normalized: normalized || undefined,
+          ...bounds
+        },
+        array,
+        ARRAY_BUFFER
+      )
+    }
+  }
+
+  const writeGeometry = (geometry: GeometryContext) => {
+    const cached = primitiveCache.get(geometry.id)
+    if (cached) {
+      return cached
+    }
+    const attributes: Record<string, number> = {}
+    for (const id of geometry.vertexBuffers) {
+      writeVertexBuffer(scene.nodes[id] as VertexBufferContext, attributes)
+    }
+
+    let indices: number | undefined
+    if (geometry.indexBuffer) {
+      const data = (scene.nodes[geometry.indexBuffer] as IndexBufferContext).value()
+      const componentType =
+        data instanceof Uint32Array
+          ? componentTypes.uint32
+          : data instanceof Uint8Array
+            ? componentTypes.uint8
+            : componentTypes.uint16
+      const array = data instanceof Uint32Array || data instanceof Uint8Array ? data : Uint16Array.from(data)
+      indices = addAccessor({ componentType, count: array.length, type: 'SCALAR' }, array, ELEMENT_ARRAY_BUFFER)
+    }
+
+    const targets = geometry.morphTargets.map(target =>
+      Object.fromEntries(
+        Object.entries(target)
+          .filter((entry): entry is [string, Float32Array] => !!entry[1])
+          .map(([k, v]) => [
+            k,
+            addAccessor(
+              {
+                componentType: componentTypes.float32,
+                count: v.length / 3,
+                type: 'VEC3',
+                ...(k === 'POSITION' ? minMax(v, 3) : undefined)
+              },
+              v,
+              ARRAY_BUFFER
+            )
+          ])
+      )
+    )
+
+    const primitive = {
+      attributes,
+      indices,
+      mode: topologyModes[geometry.topology],
+      targets: targets.length ? targets : undefined
+    }
+    primitiveCache.set(geometry.id, primitive)
+    return primitive
+  }
+
+  const writeImage = async (image: ImageBitmap) => {
+    const cached = imageCache.get(image)
+    if (cached !== undefined) {
+      return cached
+    }
+    images.push({ bufferView: writer.add(await encodePNG(image)), mimeType: 'image/png' })
+    imageCache.set(image, images.length - 1)
+    return images.length - 1
+  }
+
+  const writeSampler = (descriptor: GPUSamplerDescriptor) => {
+    const sampler = samplerOf(descriptor)
+    const key = JSON.stringify(sampler)
+    let index = samplerCache.get(key)
+    if (index === undefined) {
+      index = samplers.push(sampler) - 1
+      samplerCache.set(key, index)
+    }
+    return index
+  }
+
+  const writeTexture = async <E extends object>(source?: TextureSource, extra?: E) => {
+    if (!source) {
+      return
+    }
+    const image = 'image' in source ? source.image : source
+    if ('levels' in image) {
+      console.warn('gltf export: compressed textures are not supported, skipped')
+      return
+    }
+    const imageIndex = await writeImage(image)
+    const samplerIndex = 'image' in source && source.sampler ? writeSampler(source.sampler) : undefined
+    const key = `${imageIndex}_${samplerIndex}`
+    let index = textureCache.get(key)
+    if (index === undefined) {
+      index = textures.push({ source: imageIndex, sampler: samplerIndex }) - 1
+      textureCache.set(key, index)
+    }
+
+    const info: TextureInfo = { index, ...extra }
+    const transform = 'image' in source ? source.transform : undefined
+    if (transform) {
+      extensionsUsed.add('KHR_texture_transform')
+      info.extensions = {
+        KHR_texture_transform: {
+          offset: transform.offset ? Array.from(transform.offset) : undefined,
+          rotation: transform.rotation,
+          scale: transform.scale ? Array.from(transform.scale) : undefined
+        }
+      }
+    }
+    return info as TextureInfo & E
+  }
+
+  const extension = (material: Material, name: string, value: Record<string, unknown>) => {
+    extensionsUsed.add(name)
+    material.extensions = { ...material.extensions, [name]: value }
+  }
+
+  const writeMaterial = async (node: MaterialContext) => {
+    if (materialCache.has(node.id)) {
+      return materialCache.get(node.id)
+    }
+    const model = node.model()
+    let material: Material | undefined
+    if (model?.type === 'unlit') {
+      const { props } = model
+      material = {
+        pbrMetallicRoughness: {
+          baseColorFactor: [...Array.from(props.albedo ?? [0, 0.5, 1]), 1],
+          baseColorTexture: await writeTexture(props.albedoTexture),
+          metallicFactor: 0
+        }
+      }
+      extension(material, 'KHR_materials_unlit', {})
+    } else if (model?.type === 'pbr') {
+      const { props } = model
+      const mrTexture = props.occlusionRoughnessMetallicTexture ?? props.metallicRoughnessTexture
+      // occlusion in red channel of the packed texture
+      const occlusionTexture = props.occlusionTexture ?? props.occlusionRoughnessMetallicTexture
+      material = {
+        pbrMetallicRoughness: {
+          baseColorFactor: [...Array.from(props.albedo ?? [1, 1, 1]), props.alpha ?? 1],
+          baseColorTexture: await writeTexture(props.albedoTexture),
+          metallicFactor: props.metallic ?? (mrTexture ? 1 : 0),
+          roughnessFactor: props.roughness ?? (mrTexture ? 1 : 0.5),
+          metallicRoughnessTexture: await writeTexture(mrTexture)
+        },
+        normalTexture: await writeTexture(props.normalTexture, { scale: props.normalScale }),
+        occlusionTexture: await writeTexture(occlusionTexture, { strength: props.occlusionStrength }),
+        emissiveTexture: await writeTexture(props.emissiveTexture),
+        emissiveFactor: props.emissive ? Array.from(props.emissive) : undefined,
+        alphaMode: props.alphaMode,
+        alphaCutoff: props.alphaMode === 'MASK' ? props.alphaCutoff : undefined,
+        doubleSided: props.doubleSided
+      }
+      if (props.emissiveStrength !== undefined) {
+        extension(material, 'KHR_materials_emissive_strength', { emissiveStrength: props.emissiveStrength })
+      }
+      if (props.ior !== undefined) {
+        extension(material, 'KHR_materials_ior', { ior: props.ior })
+      }
+      if (props.specular !== undefined || props.specularColor || props.specularTexture || props.specularColorTexture) {
+        extension(material, 'KHR_materials_specular', {
+          specularFactor: props.specular,
+          specularTexture: await writeTexture(props.specularTexture),
+          specularColorFactor: props.specularColor ? Array.from(props.specularColor) : undefined,
+          specularColorTexture: await writeTexture(props.specularColorTexture)
+        })
+      }
+      if (props.sheenColor || props.sheenColorTexture) {
+        extension(material, 'KHR_materials_sheen', {
+          sheenColorFactor: props.sheenColor ? Array.from(props.sheenColor) : undefined,
+          sheenColorTexture: await writeTexture(props.sheenColorTexture),
+          sheenRoughnessFactor: props.sheenRoughness,
+          sheenRoughnessTexture: await writeTexture(props.sheenRoughnessTexture)
+        })
+      }
+      if (props.clearcoat) {
+        extension(material, 'KHR_materials_clearcoat', {
+          clearcoatFactor: props.clearcoat,
+          clearcoatTexture: await writeTexture(props.clearcoatTexture),
+          clearcoatRoughnessFactor: props.clearcoatRoughness,
+          clearcoatRoughnessTexture: await writeTexture(props.clearcoatRoughnessTexture),
+          clearcoatNormalTexture: await writeTexture(props.clearcoatNormalTexture, {
+            scale: props.clearcoatNormalScale
+          })
+        })
+      }
+      if (props.transmission) {
+        extension(material, 'KHR_materials_transmission', {
+          transmissionFactor: props.transmission,
+          transmissionTexture: await writeTexture(props.transmissionTexture)
+        })
+      }
+    } else {
+      console.warn(`gltf export: material ${node.label || node.id} is not a built-in material, skipped`)
+    }
+
+    const index = material ? materials.push({ name: node.label || undefined, ...material }) - 1 : undefined
+    materialCache.set(node.id, index)
+    return index
+  }
+
+  const writeMesh = async (node: MeshContext) => {
+    if (!node.geometry) {
+      return
+    }
+    const key = `${node.geometry}_${node.material}`
+    let index = meshCache.get(key)
+    if (index === undefined) {
+      const primitive = writeGeometry(scene.nodes[node.geometry] as GeometryContext)
+      const material = node.material ? await writeMaterial(scene.nodes[node.material] as MaterialContext) : undefined
+      const weights = Array.from(node.morphWeights())
+      index =
+        meshes.push({ primitives: [{ ...primitive, material }], weights: weights.length ? weights : undefined }) - 1
+      meshCache.set(key, index)
+    }
+    return index
+  }
+
+  const writeLight = (node: PunctualLightContext) => {
+    extensionsUsed.add('KHR_lights_punctual')
+    return (
+      lights.push({
+        name: node.label || undefined,
+        type: node.lightType,
+        color: Array.from(node.color()),
+        intensity: node.intensity,
+        range: Number.isFinite(node.range) ? node.range : undefined,
+        spot:
+          node.lightType === 'spot'
+            ? { innerConeAngle: node.innerConeAngle, outerConeAngle: node.outerConeAngle }
+            : undefined
+      }) - 1
+    )
+  }
+
+  // parents are pushed before their children, indices stay in depth first order
+  const writeNode = async (id: string): Promise<number> => {
+    const node = scene.nodes[id] as Object3DContext
+    const json: Node = { name: node.label || undefined }
+    const index = nodes.push(json) - 1
+
+    const [x, y, z] = node.position()
+    const [qx, qy, qz, qw] = node.quaternion()
+    const [sx, sy, sz] = node.scale()
+    if (x || y || z) {
+      json.translation = [x, y, z]
+    }
+    if (qx || qy || qz || qw !== 1) {
+      json.rotation = [qx, qy, qz, qw]
+    }
+    if (sx !== 1 || sy !== 1 || sz !== 1) {
+      json.scale = [sx, sy, sz]
+    }
+
+    if (node.type.includes('Mesh')) {
+      json.mesh = await writeMesh(node as MeshContext)
+    }
+    if (node.type.includes('PunctualLight')) {
+      json.extensions = { KHR_lights_punctual: { light: writeLight(node as PunctualLightContext) } }
+    }
+
+    const children: number[] = []
+    for (const child of node.children ?? []) {
+      children.push(await writeNode(child))
+    }
+    json.children = children.length ? children : undefined
+    return index
+  }
+
+  const root = typeof options?.root === 'string' ? options.root : options?.root?.id
+  const roots = root
+    ? [root]
+    : Object.values(scene.nodes)
+        .filter(v => v.type.includes('Object3D') && !v.parent)
+        .map(v => v.id)
+  const sceneNodes: number[] = []
+  for (const id of roots) {
+    sceneNodes.push(await writeNode(id))
+  }
+
+  const bin = writer.concat()
+  const nonEmpty = <V>(v: V[]) => (v.length ? v : undefined)
+  const json: GlTF = {
+    asset: { version: '2.0', generator: 'solid-webgpu-gltf' },
+    extensionsUsed: nonEmpty([...extensionsUsed]),
+    extensions: lights.length ? { KHR_lights_punctual: { lights } } : undefined,
+    scene: 0,
+    scenes: [{ nodes: sceneNodes }],
+    nodes: nonEmpty(nodes),
+    meshes: nonEmpty(meshes),
+    materials: nonEmpty(materials),
+    textures: nonEmpty(textures),
+    images: nonEmpty(images),
+    samplers: nonEmpty(samplers),
+    accessors: nonEmpty(accessors),
+    bufferViews: nonEmpty(writer.bufferViews),
+    buffers: bin.byteLength
+      ? [{ byteLength: bin.byteLength, uri: options?.binary ? undefined : (options?.bufferURI ?? 'scene.bin') }]
+      : undefined
+  }
+  // drop undefined members, JSON.stringify would skip them anyway
+  const clean = JSON.parse(JSON.stringify(json)) as GlTF
+
+  return options?.binary ? writeGLB(clean, bin.byteLength ? bin : undefined) : { json: clean, bin }
+}
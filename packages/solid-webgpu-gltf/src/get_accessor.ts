@@ -48,28 +48,125 @@ const formatMap: Record<number, string> = {
   5126: 'float32'
 }
 
-export const getAccessor = (index: number, context: LoaderContext) => {
-  const { json, buffers } = context
+const normalizedFormatMap: Record<number, string> = {
+  5120: 'snorm8',
+  5121: 'unorm8',
+  5122: 'snorm16',
+  5123: 'unorm16'
+}
+
+/**
+ * integer vertex formats are read as `u32` / `i32` in shader, normalized and float ones as `f32`
+ */
+const shaderScalarType: Record<number, string> = {
+  5120: 'i32',
+  5121: 'u32',
+  5122: 'i32',
+  5123: 'u32',
+  5125: 'u32',
+  5126: 'f32'
+}
+
+/**
+ * max value of normalized integer component types
+ */
+const normalizedMax: Record<number, number> = {
+  5120: 127,
+  5121: 255,
+  5122: 32767,
+  5123: 65535
+}
+
+/**
+ * typed array of accessor elements, de-interleaved when `byteStride` of buffer view exceeds element size,
+ * zero filled without buffer view
+ */
+const readAccessorData = (accessor: Accessor, context: LoaderContext) => {
+  const { json, buffers, bufferViews } = context
+  const itemSize = accessorTypeSize[accessor.type]
+  const ArrayType = componentTypedArray[accessor.componentType]
+  const length = itemSize * accessor.count
+  if (accessor.bufferView === undefined) {
+    return new ArrayType(length)
+  }
+  const bufferView = json.bufferViews![accessor.bufferView]
+  // decoded meshopt buffer views start at 0
+  const decoded = bufferViews[accessor.bufferView]
+  const buffer = decoded ?? buffers[bufferView.buffer]
+  const byteOffset = (decoded ? 0 : (bufferView.byteOffset ?? 0)) + (accessor.byteOffset ?? 0)
+  const elementSize = itemSize * componentTypeSize[accessor.componentType]
+  const byteStride = bufferView.byteStride ?? elementSize
+  if (byteStride === elementSize) {
+    return new ArrayType(buffer, byteOffset, length)
+  }
+  const data = new ArrayType(length)
+  for (let i = 0; i < accessor.count; i++) {
+    data.set(new ArrayType(buffer, byteOffset + i * byteStride, itemSize), i * itemSize)
+  }
+  return data
+}
 
-  const accessor = json.accessors?.[index]
+export const getAccessor = (index: number, context: LoaderContext) => {
+  const accessor = context.json.accessors?.[index]
   if (!accessor) {
     throw new Error('accessor not found')
   }
   const itemSize = accessorTypeSize[accessor.type]
-  const bufferView = json.bufferViews![accessor.bufferView as number]
-
   const itemType = componentValueType[accessor.componentType]
-  const buffer = buffers[bufferView.buffer]
-  const ArrayType = componentTypedArray[accessor.componentType]
-  const byteOffset = (bufferView.byteOffset ?? 0) + (accessor.byteOffset ?? 0)
 
   return {
     ...accessor,
     index,
     itemSize,
     itemType,
-    arrayStride: itemSize * componentTypeSize[accessor.componentType],
-    format: `${formatMap[accessor.componentType]}${itemSize > 1 ? `x${itemSize}` : ''}` as GPUVertexFormat,
-    bufferData: new ArrayType(buffer, byteOffset, itemSize * accessor.count)
+    bufferData: readAccessorData(accessor, context)
+  }
+}
+
+/**
+ * accessor data as floats, normalized integers are mapped to [0, 1] or [-1, 1]
+ */
+export const toFloat32Array = (accessor: ReturnType<typeof getAccessor>) => {
+  const data = accessor.bufferData
+  if (data instanceof Float32Array) {
+    return data
+  }
+  const max = accessor.normalized ? normalizedMax[accessor.componentType] : 1
+  return Float32Array.from(data, v => Math.max(v / max, -1))
+}
+
+/**
+ * vertex buffer value & attribute of an accessor. integer attributes other than joints are quantized floats
+ * of `KHR_mesh_quantization` and converted, WebGPU lacks x3 and unaligned 8 / 16 bit formats,
+ * so those vertices are padded to 4 bytes with normalized padding reading as 1
+ */
+export const toVertexAttribute = (accessor: ReturnType<typeof getAccessor>, name: string) => {
+  const { itemSize, componentType, normalized } = accessor
+  const vectorOf = (scalar: string) => (itemSize > 1 ? `vec${itemSize}<${scalar}>` : scalar)
+  if (componentType === 5126 || (!normalized && !name.startsWith('JOINTS_'))) {
+    return {
+      value: toFloat32Array(accessor),
+      format: `float32${itemSize > 1 ? `x${itemSize}` : ''}` as GPUVertexFormat,
+      type: vectorOf('f32')
+    }
+  }
+
+  const componentSize = componentTypeSize[componentType]
+  const paddedSize = (Math.ceil((itemSize * componentSize) / 4) * 4) / componentSize
+  let value = accessor.bufferData
+  if (paddedSize !== itemSize) {
+    value = new (value.constructor as TypedArrayConstructor)(accessor.count * paddedSize)
+    if (normalized) {
+      value.fill(normalizedMax[componentType])
+    }
+    for (let i = 0; i < accessor.count; i++) {
+      value.set(accessor.bufferData.subarray(i * itemSize, (i + 1) * itemSize), i * paddedSize)
+    }
+  }
+  const componentFormat = (normalized ? normalizedFormatMap : formatMap)[componentType]
+  return {
+    value,
+    format: `${componentFormat}${paddedSize > 1 ? `x${paddedSize}` : ''}` as GPUVertexFormat,
+    type: vectorOf(normalized ? 'f32' : shaderScalarType[componentType])
   }
 }
@@ -0,0 +1,46 @@
+import type { AnimationClip, AnimationPath, Interpolation, KeyframeTrack } from 'solid-webgpu'
+import { getAccessor, toFloat32Array } from './get_accessor'
+import { LoaderContext } from './types'
+
+const animationPaths: string[] = ['translation', 'rotation', 'scale', 'weights'] satisfies AnimationPath[]
+
+/**
+ * clip targets are glTF node indices, resolved when a loaded scene is mounted,
+ * `weights` tracks resolve to the meshes of the node
+ */
+export const getAnimation = (index: number, context: LoaderContext): AnimationClip => {
+  const json = context.json.animations?.[index]
+  if (!json) {
+    throw new Error('gltf animation not found')
+  }
+  const _accessor = (i: number) => context.withCache(`accessor_${i}`, () => getAccessor(i, context))
+
+  const tracks: KeyframeTrack[] = []
+  for (const channel of json.channels) {
+    const { node, path } = channel.target
+    if (node === undefined) {
+      continue
+    }
+    if (!animationPaths.includes(path)) {
+      console.warn(`gltf animation path ${path} not supported`)
+      continue
+    }
+    const sampler = json.samplers[channel.sampler]
+    if (!sampler) {
+      throw new Error('gltf animation sampler not found')
+    }
+    tracks.push({
+      target: node,
+      path: path as AnimationPath,
+      interpolation: (sampler.interpolation ?? 'LINEAR') as Interpolation,
+      times: toFloat32Array(_accessor(sampler.input)),
+      values: toFloat32Array(_accessor(sampler.output))
+    })
+  }
+
+  return {
+    name: (json.name as string | undefined) ?? `gltf animation ${index}`,
+    duration: Math.max(0, ...tracks.map(v => v.times[v.times.length - 1] ?? 0)),
+    tracks
+  }
+}
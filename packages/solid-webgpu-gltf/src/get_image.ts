@@ -1,25 +1,41 @@
-import { imageBitmapFromImageUrl } from 'solid-webgpu'
+import { CompressedTextureImage } from 'solid-webgpu'
 import { LoaderContext } from './types'
 
-export const getImage = async (index: number, context: LoaderContext) => {
+const isKTX2 = (mimeType?: string, uri?: string) =>
+  mimeType === 'image/ktx2' || /(\.ktx2$|^data:image\/ktx2[;,])/i.test(uri ?? '')
+
+const transcodeKTX2 = (data: ArrayBuffer, context: LoaderContext) => {
+  if (!context.options.ktx2) {
+    throw new Error('KHR_texture_basisu requires `ktx2` transcoder in loader options')
+  }
+  return context.options.ktx2.transcode(new Uint8Array(data))
+}
+
+export const getImage = async (
+  index: number,
+  context: LoaderContext
+): Promise<ImageBitmap | CompressedTextureImage> => {
   const { json, buffers } = context
   const image = json.images?.[index]
   if (!image) {
     throw new Error(`image ${index} not fount in gltf`)
   }
+  let data: ArrayBuffer
   if (image.uri) {
-    return imageBitmapFromImageUrl(image.uri)
+    data = await context.resources.load(image.uri)
   } else if (image.bufferView !== undefined) {
     const bufferView = json.bufferViews?.[image.bufferView]
     if (!bufferView) {
       throw new Error('gltf bufferView not found')
     }
     const byteOffset = bufferView.byteOffset || 0
-    const bufferData = buffers[bufferView.buffer].slice(byteOffset, byteOffset + bufferView.byteLength)
-    const blob = new Blob([bufferData], { type: image.mimeType })
-    const url = URL.createObjectURL(blob)
-    return imageBitmapFromImageUrl(url)
+    data = buffers[bufferView.buffer].slice(byteOffset, byteOffset + bufferView.byteLength)
   } else {
     throw new Error('gltf neither image.uri or image.bufferView specified')
   }
+
+  if (isKTX2(image.mimeType, image.uri)) {
+    return transcodeKTX2(data, context)
+  }
+  return createImageBitmap(new Blob([data], { type: image.mimeType }))
 }
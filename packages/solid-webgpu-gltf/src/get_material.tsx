@@ -1,11 +1,29 @@
 // import { PBRMaterial, UnlitMaterial } from 'core'
-import { PBRMaterial, UnlitMaterial, Vec3 } from 'solid-webgpu'
+import { AlphaMode, PBRMaterial, TextureSource, UnlitMaterial, Vec3 } from 'solid-webgpu'
+import { MaterialNormalTextureInfo, TextureInfo } from './generated/glTF'
 import { getTexture } from './get_texture'
 import { LoaderContext } from './types'
 
+type TextureTransformExtension = {
+  offset?: [number, number]
+  rotation?: number
+  scale?: [number, number]
+}
+
+const vec3Of = (v?: number[]) => (v ? Vec3.fromValues(...(v.slice(0, 3) as [number, number, number])) : undefined)
+
 export const DefaultMaterial = () => <PBRMaterial />
 export const getMaterial = async (index: number, context: LoaderContext) => {
   const _texture = (i: number) => context.withCache(`texture_${i}`, () => getTexture(i, context))
+  // KHR_texture_transform belongs to the reference, the cached texture stays untransformed
+  const _textureInfo = async (info?: TextureInfo): Promise<TextureSource | undefined> => {
+    if (!info) {
+      return
+    }
+    const texture = await _texture(info.index)
+    const transform = info.extensions?.KHR_texture_transform as TextureTransformExtension | undefined
+    return transform ? { ...texture, transform } : texture
+  }
   const json = context.json.materials?.[index]
   if (!json) {
     throw new Error(`material ${index} not fount in gltf`)
@@ -16,42 +34,92 @@ export const getMaterial = async (index: number, context: LoaderContext) => {
   const mr = json.pbrMetallicRoughness
 
   if (json.extensions?.KHR_materials_unlit) {
-    const albedoTexture = mr.baseColorTexture !== undefined ? await _texture(mr.baseColorTexture.index) : undefined
-    return () => (
-      <UnlitMaterial
-        albedo={
-          mr.baseColorFactor
-            ? Vec3.fromValues(...(mr.baseColorFactor?.slice(0, 3) as [number, number, number]))
-            : undefined
-        }
-        albedoTexture={albedoTexture}
-      />
-    )
+    const albedoTexture = await _textureInfo(mr.baseColorTexture)
+    return () => <UnlitMaterial albedo={vec3Of(mr.baseColorFactor)} albedoTexture={albedoTexture} />
   }
 
-  const albedoTexture = mr.baseColorTexture !== undefined ? await _texture(mr.baseColorTexture.index) : undefined
-  const occlusionRoughnessMetallicTexture =
-    mr.metallicRoughnessTexture !== undefined ? await _texture(mr.metallicRoughnessTexture.index) : undefined
-  /**
-   * TODO: handle
-   * + base color alpha channel
-   * + samplers
-   * + json.normalTexture
-   * + json.occlusionTexture (merge to occlusionRoughnessMetallicTexture?)
-   * + json.emissiveTexture
-   */
+  const albedoTexture = await _textureInfo(mr.baseColorTexture)
+  const metallicRoughnessTexture = await _textureInfo(mr.metallicRoughnessTexture)
+  const normalTexture = await _textureInfo(json.normalTexture)
+  const occlusionTexture = await _textureInfo(json.occlusionTexture)
+  const emissiveTexture = await _textureInfo(json.emissiveTexture)
+
+  const ext = json.extensions ?? {}
+  const emissiveStrength = ext.KHR_materials_emissive_strength as { emissiveStrength?: number } | undefined
+  const ior = ext.KHR_materials_ior as { ior?: number } | undefined
+  const specular = ext.KHR_materials_specular as
+    | {
+        specularFactor?: number
+        specularTexture?: TextureInfo
+        specularColorFactor?: number[]
+        specularColorTexture?: TextureInfo
+      }
+    | undefined
+  const sheen = ext.KHR_materials_sheen as
+    | {
+        sheenColorFactor?: number[]
+        sheenColorTexture?: TextureInfo
+        sheenRoughnessFactor?: number
+        sheenRoughnessTexture?: TextureInfo
+      }
+    | undefined
+  const clearcoat = ext.KHR_materials_clearcoat as
+    | {
+        clearcoatFactor?: number
+        clearcoatTexture?: TextureInfo
+        clearcoatRoughnessFactor?: number
+        clearcoatRoughnessTexture?: TextureInfo
+        clearcoatNormalTexture?: MaterialNormalTextureInfo
+      }
+    | undefined
+  const transmission = ext.KHR_materials_transmission as
+    | { transmissionFactor?: number; transmissionTexture?: TextureInfo }
+    | undefined
+
+  const specularTexture = await _textureInfo(specular?.specularTexture)
+  const specularColorTexture = await _textureInfo(specular?.specularColorTexture)
+  const sheenColorTexture = await _textureInfo(sheen?.sheenColorTexture)
+  const sheenRoughnessTexture = await _textureInfo(sheen?.sheenRoughnessTexture)
+  const clearcoatTexture = await _textureInfo(clearcoat?.clearcoatTexture)
+  const clearcoatRoughnessTexture = await _textureInfo(clearcoat?.clearcoatRoughnessTexture)
+  const clearcoatNormalTexture = await _textureInfo(clearcoat?.clearcoatNormalTexture)
+  const transmissionTexture = await _textureInfo(transmission?.transmissionTexture)
 
   return () => (
     <PBRMaterial
-      albedo={
-        mr.baseColorFactor
-          ? Vec3.fromValues(...(mr.baseColorFactor?.slice(0, 3) as [number, number, number]))
-          : undefined
-      }
-      metallic={mr.metallicFactor}
-      roughness={mr.roughnessFactor}
+      albedo={vec3Of(mr.baseColorFactor)}
+      alpha={mr.baseColorFactor?.[3]}
+      metallic={mr.metallicFactor ?? 1}
+      roughness={mr.roughnessFactor ?? 1}
+      emissive={vec3Of(json.emissiveFactor)}
+      emissiveStrength={emissiveStrength?.emissiveStrength}
       albedoTexture={albedoTexture}
-      occlusionRoughnessMetallicTexture={occlusionRoughnessMetallicTexture}
+      metallicRoughnessTexture={metallicRoughnessTexture}
+      normalTexture={normalTexture}
+      normalScale={json.normalTexture?.scale}
+      occlusionTexture={occlusionTexture}
+      occlusionStrength={json.occlusionTexture?.strength}
+      emissiveTexture={emissiveTexture}
+      alphaMode={json.alphaMode as AlphaMode | undefined}
+      alphaCutoff={json.alphaCutoff}
+      doubleSided={json.doubleSided}
+      ior={ior?.ior}
+      specular={specular?.specularFactor}
+      specularTexture={specularTexture}
+      specularColor={vec3Of(specular?.specularColorFactor)}
+      specularColorTexture={specularColorTexture}
+      sheenColor={vec3Of(sheen?.sheenColorFactor)}
+      sheenColorTexture={sheenColorTexture}
+      sheenRoughness={sheen?.sheenRoughnessFactor}
+      sheenRoughnessTexture={sheenRoughnessTexture}
+      clearcoat={clearcoat?.clearcoatFactor}
+      clearcoatTexture={clearcoatTexture}
+      clearcoatRoughness={clearcoat?.clearcoatRoughnessFactor}
+      clearcoatRoughnessTexture={clearcoatRoughnessTexture}
+      clearcoatNormalTexture={clearcoatNormalTexture}
+      clearcoatNormalScale={clearcoat?.clearcoatNormalTexture?.scale}
+      transmission={transmission?.transmissionFactor}
+      transmissionTexture={transmissionTexture}
     />
   )
 }
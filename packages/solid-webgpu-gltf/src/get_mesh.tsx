@@ -1,64 +1,165 @@
 // import { Geometry, Mesh } from 'core'
-import { Geometry, IndexBuffer, Mesh, VertexBuffer } from 'solid-webgpu'
-import { getAccessor } from './get_accessor'
+import { createMemo, Show } from 'solid-js'
+import { computeTangents, Geometry, IndexBuffer, Mesh, VertexBuffer } from 'solid-webgpu'
+import { useNodesContext, useScenePropsContext } from './context'
+import { GlTF, MeshPrimitive } from './generated/glTF'
+import { getAccessor, toFloat32Array, toVertexAttribute } from './get_accessor'
 import { DefaultMaterial, getMaterial } from './get_material'
+import { getSkin } from './get_skin'
 import { LoaderContext } from './types'
 
-export const getMesh = async (index: number, context: LoaderContext) => {
+const morphAttributes = ['POSITION', 'NORMAL', 'TANGENT']
+
+type DracoCompression = {
+  bufferView: number
+  attributes: Record<string, number>
+}
+
+type VariantsExtension = {
+  mappings: { material: number; variants: number[] }[]
+}
+
+/**
+ * names of `KHR_materials_variants` in order, mappings refer to them by index
+ */
+export const variantNamesOf = (json: GlTF) =>
+  ((json.extensions?.KHR_materials_variants?.variants as { name: string }[] | undefined) ?? []).map(v => v.name)
+
+const decodeDraco = (primitive: MeshPrimitive, draco: DracoCompression, context: LoaderContext) => {
+  const { json, buffers, options } = context
+  if (!options.draco) {
+    throw new Error('KHR_draco_mesh_compression requires `draco` decoder in loader options')
+  }
+  const bufferView = json.bufferViews![draco.bufferView]
+  const data = new Uint8Array(buffers[bufferView.buffer], bufferView.byteOffset ?? 0, bufferView.byteLength)
+  const attributes = Object.fromEntries(
+    Object.entries(draco.attributes).map(([k, id]) => [
+      k,
+      { id, componentType: json.accessors![primitive.attributes[k]].componentType }
+    ])
+  )
+  // worker receives a copy, buffer of the file stays intact
+  return options.draco.decode(data.slice(), attributes)
+}
+
+/**
+ * skin and morph weights of the referencing node apply to every primitive
+ */
+export const getMesh = async (index: number, context: LoaderContext, nodeIndex: number) => {
   const json = context.json.meshes?.[index]
   if (!json) {
     throw new Error('gltf mesh not found')
   }
+  const { skin, weights } = context.json.nodes![nodeIndex]
   const _accessor = (i: number) => context.withCache(`accessor_${i}`, () => getAccessor(i, context))
   const _material = (i: number) => context.withCache(`material_${i}`, () => getMaterial(i, context))
+  const variantNames = variantNamesOf(context.json)
+  const Skin = skin !== undefined ? context.withCache(`skin_${skin}`, () => getSkin(skin, context)) : undefined
 
   return await Promise.all(
-    json.primitives.map(async primitive => {
-      const draco = primitive.extensions?.['KHR_draco_mesh_compression'] as {
-        bufferView: number
-        attributes: Record<string, number>
-      }
-      if (draco) {
-        throw new Error('KHR_draco_mesh_compression not supported')
+    json.primitives.map(async (primitive, primitiveIndex) => {
+      const draco = primitive.extensions?.['KHR_draco_mesh_compression'] as DracoCompression | undefined
+      const decoded = draco
+        ? await context.withCache(`draco_${index}_${primitiveIndex}`, () => decodeDraco(primitive, draco, context))
+        : undefined
+      // decoded draco data replaces the placeholder accessors of the primitive
+      const _attribute = (k: string) => {
+        const accessor = _accessor(primitive.attributes[k])
+        const data = decoded?.attributes[k]
+        return data ? { ...accessor, bufferData: data } : accessor
       }
+      const indexData =
+        decoded?.index ?? (primitive.indices !== undefined ? _accessor(primitive.indices).bufferData : undefined)
+
       const attributeKeys = Object.keys(primitive.attributes)
+      const morphTargets = primitive.targets?.map(target =>
+        Object.fromEntries(
+          Object.entries(target)
+            .filter(([k]) => morphAttributes.includes(k))
+            .map(([k, v]) => [k, toFloat32Array(_accessor(v))])
+        )
+      )
+
+      const mappings = (primitive.extensions?.KHR_materials_variants as VariantsExtension | undefined)?.mappings ?? []
+      const variantMaterials = Object.fromEntries(
+        mappings.flatMap(({ material, variants }) => variants.map(v => [variantNames[v], material] as const))
+      )
+      // every material a variant switches to is loaded upfront
+      const materialIndices = new Set(mappings.map(v => v.material))
+      if (primitive.material !== undefined) {
+        materialIndices.add(primitive.material)
+      }
+      const materials = Object.fromEntries(
+        await Promise.all([...materialIndices].map(async i => [i, await _material(i)] as const))
+      )
+
+      // normal maps need tangents, files may leave them to the loader
+      const normalTexture = [...materialIndices].map(i => context.json.materials?.[i]?.normalTexture).find(v => v)
+      const uvKey = `TEXCOORD_${normalTexture?.texCoord ?? 0}`
+      const tangents =
+        normalTexture &&
+        !attributeKeys.includes('TANGENT') &&
+        attributeKeys.includes('NORMAL') &&
+        uvKey in primitive.attributes
+          ? computeTangents({
+              attributes: {
+                POSITION: { array: toFloat32Array(_attribute('POSITION')), itemSize: 3 },
+                NORMAL: { array: toFloat32Array(_attribute('NORMAL')), itemSize: 3 },
+                TEXCOORD_0: { array: toFloat32Array(_attribute(uvKey)), itemSize: 2 }
+              },
+              indices: indexData
+            }).attributes.TANGENT.array
+          : undefined
 
       const Geo = () => (
         <Geometry
-          indexBuffer={
-            primitive.indices !== undefined ? (
-              <IndexBuffer value={_accessor(primitive.indices!).bufferData} />
-            ) : undefined
-          }
-          vertexBuffers={attributeKeys.map((k, i) => {
-            const accessor = _accessor(primitive.attributes[k])
-            const buffer = accessor.bufferData
-            return (
-              <VertexBuffer
-                value={buffer}
-                layout={{
-                  arrayStride: accessor.arrayStride,
-                  attributes: [
-                    {
-                      format: accessor.format,
-                      offset: 0,
-                      shaderLocation: i
-                    }
-                  ]
-                }}
-                attribute={{
-                  name: k,
-                  type: `vec${accessor.itemSize}<${accessor.itemType}>`
-                }}
-              />
+          morphTargets={morphTargets}
+          indexBuffer={indexData ? <IndexBuffer value={indexData} /> : undefined}
+          vertexBuffers={[
+            ...attributeKeys.map(k => {
+              const { value, format, type } = toVertexAttribute(_attribute(k), k)
+              return <VertexBuffer value={value} attributes={[{ name: k, type, format, offset: 0 }]} />
+            }),
+            tangents && (
+              <VertexBuffer value={tangents} attributes={[{ name: 'TANGENT', format: 'float32x4', offset: 0 }]} />
             )
-          })}
+          ]}
         />
       )
 
-      const Mat = primitive.material !== undefined ? await _material(primitive.material) : DefaultMaterial
-
-      return () => <Mesh material={<Mat />} geometry={<Geo />} label={json.name ?? `gltf mesh ${index}`} />
+      return () => {
+        const nodes = useNodesContext()
+        const sceneProps = useScenePropsContext()
+        const Material = createMemo(() => {
+          const variant = sceneProps?.variant
+          const material =
+            variant !== undefined && variant in variantMaterials ? variantMaterials[variant] : primitive.material
+          if (material === undefined) {
+            return DefaultMaterial
+          }
+          const name = context.json.materials?.[material]?.name
+          return (typeof name === 'string' ? sceneProps?.materials?.[name] : undefined) ?? materials[material]
+        })
+        return (
+          <Mesh
+            ref={v => {
+              nodes?.[1]('meshes', nodeIndex, (ids = []) => ids.concat(v.id))
+              if (typeof json.name === 'string') {
+                sceneProps?.meshRefs?.[json.name]?.(v)
+              }
+            }}
+            morphWeights={weights ?? json.weights}
+            material={
+              <Show when={Material()} keyed>
+                {M => <M />}
+              </Show>
+            }
+            geometry={<Geo />}
+            skeleton={Skin ? <Skin /> : undefined}
+            label={json.name ?? `gltf mesh ${index}`}
+          />
+        )
+      }
     })
   )
 }
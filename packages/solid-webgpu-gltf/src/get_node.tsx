@@ -1,5 +1,6 @@
 import { Component, For } from 'solid-js'
-import { Mat4, Mat4Like, Object3D, Quat, QuatLike, Vec3Like } from 'solid-webgpu'
+import { Mat4, Mat4Like, Object3D, Object3DContext, Quat, QuatLike, Vec3Like } from 'solid-webgpu'
+import { useNodesContext, useScenePropsContext } from './context'
 import { getMesh } from './get_mesh'
 import { getPunctualLight } from './get_punctual_light'
 import { LoaderContext } from './types'
@@ -26,7 +27,7 @@ export const getNode = async (index: number, context: LoaderContext) => {
     : (json.translation as Vec3Like)
 
   const meshes =
-    json.mesh !== undefined ? await context.withCache(`mesh_${index}`, () => getMesh(json.mesh!, context)) : []
+    json.mesh !== undefined ? await context.withCache(`mesh_${index}`, () => getMesh(json.mesh!, context, index)) : []
 
   const childNodes: Component[] = []
   for (const child of json.children ?? []) {
@@ -40,11 +41,26 @@ export const getNode = async (index: number, context: LoaderContext) => {
       ? context.withCache(`punctual_light_${index}`, () => getPunctualLight(lightIndex, context))
       : () => null
 
-  return () => (
-    <Object3D label={json.name ?? `gltf node ${index}`} scale={scale} quaternion={quaternion} position={position}>
-      <Light />
-      <For each={meshes}>{Mesh => <Mesh />}</For>
-      <For each={childNodes}>{Child => <Child />}</For>
-    </Object3D>
-  )
+  return () => {
+    const nodes = useNodesContext()
+    const sceneProps = useScenePropsContext()
+    return (
+      <Object3D
+        ref={v => {
+          nodes?.[1]('nodes', index, v.id)
+          if (typeof json.name === 'string') {
+            sceneProps?.nodeRefs?.[json.name]?.(v as Object3DContext)
+          }
+        }}
+        label={json.name ?? `gltf node ${index}`}
+        scale={scale}
+        quaternion={quaternion}
+        position={position}
+      >
+        <Light />
+        <For each={meshes}>{Mesh => <Mesh />}</For>
+        <For each={childNodes}>{Child => <Child />}</For>
+      </Object3D>
+    )
+  }
 }
@@ -0,0 +1,47 @@
+import { LoaderContext } from './types'
+
+/**
+ * WebGL enums used by glTF samplers
+ */
+const NEAREST = 9728
+const LINEAR = 9729
+const NEAREST_MIPMAP_NEAREST = 9984
+const LINEAR_MIPMAP_NEAREST = 9985
+const NEAREST_MIPMAP_LINEAR = 9986
+const LINEAR_MIPMAP_LINEAR = 9987
+
+const addressModes: Record<number, GPUAddressMode> = {
+  33071: 'clamp-to-edge',
+  33648: 'mirror-repeat',
+  10497: 'repeat'
+}
+
+type MinFilter = Pick<GPUSamplerDescriptor, 'minFilter' | 'mipmapFilter' | 'lodMaxClamp'>
+
+/**
+ * `NEAREST` & `LINEAR` skip mipmapping, the sampler is clamped to the base level of the generated mip chain
+ */
+const minFilters: Record<number, MinFilter> = {
+  [NEAREST]: { minFilter: 'nearest', mipmapFilter: 'nearest', lodMaxClamp: 0 },
+  [LINEAR]: { minFilter: 'linear', mipmapFilter: 'nearest', lodMaxClamp: 0 },
+  [NEAREST_MIPMAP_NEAREST]: { minFilter: 'nearest', mipmapFilter: 'nearest' },
+  [LINEAR_MIPMAP_NEAREST]: { minFilter: 'linear', mipmapFilter: 'nearest' },
+  [NEAREST_MIPMAP_LINEAR]: { minFilter: 'nearest', mipmapFilter: 'linear' },
+  [LINEAR_MIPMAP_LINEAR]: { minFilter: 'linear', mipmapFilter: 'linear' }
+}
+
+/**
+ * undefined filters fall back to trilinear, wrap modes default to repeat
+ */
+export const getSampler = (index: number | undefined, context: LoaderContext): GPUSamplerDescriptor => {
+  const json = index === undefined ? {} : context.json.samplers?.[index]
+  if (!json) {
+    throw new Error('gltf sampler not found')
+  }
+  return {
+    magFilter: json.magFilter === NEAREST ? 'nearest' : 'linear',
+    ...(minFilters[json.minFilter ?? LINEAR_MIPMAP_LINEAR] ?? minFilters[LINEAR_MIPMAP_LINEAR]),
+    addressModeU: addressModes[json.wrapS ?? 10497] ?? 'repeat',
+    addressModeV: addressModes[json.wrapT ?? 10497] ?? 'repeat'
+  }
+}
@@ -0,0 +1,28 @@
+import { Skeleton } from 'solid-webgpu'
+import { useNodesContext } from './context'
+import { getAccessor } from './get_accessor'
+import { LoaderContext } from './types'
+
+export const getSkin = (index: number, context: LoaderContext) => {
+  const json = context.json.skins?.[index]
+  if (!json) {
+    throw new Error('gltf skin not found')
+  }
+  const inverseBindMatrices =
+    json.inverseBindMatrices !== undefined
+      ? (context.withCache(`accessor_${json.inverseBindMatrices}`, () =>
+          getAccessor(json.inverseBindMatrices!, context)
+        ).bufferData as Float32Array)
+      : undefined
+
+  return () => {
+    const nodes = useNodesContext()
+    return (
+      <Skeleton
+        label={json.name ?? `gltf skin ${index}`}
+        joints={json.joints.map(v => nodes?.[0].nodes[v])}
+        inverseBindMatrices={inverseBindMatrices}
+      />
+    )
+  }
+}
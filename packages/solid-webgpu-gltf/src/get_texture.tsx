@@ -1,5 +1,7 @@
 // import { textureFromImageData } from 'core'
+import { TextureSource } from 'solid-webgpu'
 import { getImage } from './get_image'
+import { getSampler } from './get_sampler'
 import { LoaderContext } from './types'
 
 export const getTexture = async (textureIndex: number, context: LoaderContext) => {
@@ -7,21 +9,15 @@ export const getTexture = async (textureIndex: number, context: LoaderContext) =
   if (!json) {
     throw new Error('gltf texture not found')
   }
-  if (json.source === undefined) {
+  // KTX2 source is preferred once a transcoder is registered, `source` is the optional fallback
+  const basisu = json.extensions?.KHR_texture_basisu?.source as number | undefined
+  const source = basisu !== undefined && (context.options.ktx2 || json.source === undefined) ? basisu : json.source
+  if (source === undefined) {
     throw new Error('gltf texture.source is undefined')
   }
 
-  // TODO: sampler
-  // const sJSON = tJSON.sampler
-  //   ? Object.assign(
-  //       defaultSampler,
-  //       json.samplers && json.samplers.length > tJSON.sampler ? json.samplers[tJSON.sampler] : defaultSampler
-  //     )
-  //   : defaultSampler
+  const image = await context.withCache(`image_${source}`, () => getImage(source, context))
+  const sampler = getSampler(json.sampler, context)
 
-  const image = await context.withCache(`image_${json.source}`, () => getImage(json.source!, context))
-
-  return image
-  // const Tex = () => <Texture image={image} descriptor={{ size: { width: image.width, height: image.height } }} />
-  // return Tex
+  return { image, sampler } satisfies TextureSource
 }
@@ -0,0 +1,90 @@
+import { createMemo, createResource, Show, splitProps } from 'solid-js'
+import { access, MaybeAccessor } from 'solid-webgpu'
+import { loadGLTF } from './load_gltf'
+import { GLTFLoaderOptions, GLTFSceneProps } from './types'
+
+export type GLTFSource = string | ArrayBuffer | File
+export type GLTFResult = Awaited<ReturnType<typeof loadGLTF>>
+
+const urlCache = new Map<string, Promise<GLTFResult>>()
+const objectCache = new WeakMap<ArrayBuffer | File, Promise<GLTFResult>>()
+
+/**
+ * `loadGLTF` once per url or object, shared by every `createGLTF` & `<GLTF>`,
+ * options of the first load win, failed loads are dropped so they can be retried
+ */
+export const loadGLTFCached = (source: GLTFSource, options?: GLTFLoaderOptions) => {
+  const cached = typeof source === 'string' ? urlCache.get(source) : objectCache.get(source)
+  if (cached) {
+    return cached
+  }
+  const loading = loadGLTF(source, options).catch(e => {
+    if (typeof source === 'string') {
+      urlCache.delete(source)
+    } else {
+      objectCache.delete(source)
+    }
+    throw e
+  })
+  if (typeof source === 'string') {
+    urlCache.set(source, loading)
+  } else {
+    objectCache.set(source, loading)
+  }
+  return loading
+}
+
+/**
+ * resource of a loaded glTF file, suspends `Suspense` and throws to `ErrorBoundary` while reading it,
+ * loads again once `source` changes
+ */
+export const createGLTF = (
+  source: MaybeAccessor<GLTFSource | undefined>,
+  options?: MaybeAccessor<GLTFLoaderOptions | undefined>
+) => {
+  const [gltf] = createResource(
+    () => access(source),
+    v => loadGLTFCached(v, access(options))
+  )
+  return gltf
+}
+
+export type GLTFProps = GLTFSceneProps & {
+  src: GLTFSource
+  /**
+   * index or name of the scene, defaults to the file's `scene` or the first one
+   */
+  scene?: number | string
+  options?: GLTFLoaderOptions
+}
+
+/**
+ * render a scene of a glTF file, named nodes, meshes and materials are reachable through `GLTFSceneProps`
+ */
+export const GLTF = (props: GLTFProps) => {
+  const [local, sceneProps] = splitProps(props, ['src', 'scene', 'options'])
+  const gltf = createGLTF(
+    () => local.src,
+    () => local.options
+  )
+
+  const Scene = createMemo(() => {
+    const result = gltf()
+    if (!result) {
+      return
+    }
+    const index =
+      typeof local.scene === 'string' ? result.names.scenes[local.scene] : (local.scene ?? result.json.scene ?? 0)
+    const scene = result.scenes[index]
+    if (!scene) {
+      throw new Error(`gltf scene ${local.scene} not found`)
+    }
+    return scene
+  })
+
+  return (
+    <Show when={Scene()} keyed>
+      {S => <S {...sceneProps} />}
+    </Show>
+  )
+}
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { parseKTX2 } from './ktx2'
+
+const IDENTIFIER = [0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a]
+
+/**
+ * KTX2 file of two levels with a basic data format descriptor of one sample per channel
+ */
+const ktx2File = (options: {
+  vkFormat: number
+  width: number
+  height: number
+  colorModel: number
+  channels: number[]
+}) => {
+  const levels = [new Uint8Array([1, 2, 3, 4]), new Uint8Array([5, 6])]
+  const dfdByteOffset = 80 + levels.length * 24
+  const blockSize = 24 + options.channels.length * 16
+  const dataOffset = dfdByteOffset + 4 + blockSize
+  const bytes = new Uint8Array(dataOffset + levels.reduce((a, v) => a + v.byteLength, 0))
+  const view = new DataView(bytes.buffer)
+  bytes.set(IDENTIFIER)
+  view.setUint32(12, options.vkFormat, true)
+  view.setUint32(20, options.width, true)
+  view.setUint32(24, options.height, true)
+  view.setUint32(36, 1, true)
+  view.setUint32(40, levels.length, true)
+  view.setUint32(48, dfdByteOffset, true)
+  view.setUint32(52, 4 + blockSize, true)
+
+  let offset = dataOffset
+  levels.forEach((level, i) => {
+    view.setBigUint64(80 + i * 24, BigInt(offset), true)
+    view.setBigUint64(80 + i * 24 + 8, BigInt(level.byteLength), true)
+    bytes.set(level, offset)
+    offset += level.byteLength
+  })
+
+  view.setUint32(dfdByteOffset, 4 + blockSize, true)
+  view.setUint16(dfdByteOffset + 4 + 6, blockSize, true)
+  view.setUint8(dfdByteOffset + 4 + 8, options.colorModel)
+  options.channels.forEach((channel, i) => view.setUint8(dfdByteOffset + 4 + 24 + i * 16 + 3, channel))
+  return bytes
+}
+
+test('header, levels and channels are read', () => {
+  const container = parseKTX2(ktx2File({ vkFormat: 37, width: 4, height: 2, colorModel: 1, channels: [0, 1, 2, 15] }))
+  assert.equal(container.vkFormat, 37)
+  assert.equal(container.width, 4)
+  assert.equal(container.height, 2)
+  assert.equal(container.faceCount, 1)
+  assert.deepEqual(
+    container.levels.map(v => ({ ...v, data: [...v.data] })),
+    [
+      { data: [1, 2, 3, 4], width: 4, height: 2 },
+      { data: [5, 6], width: 2, height: 1 }
+    ]
+  )
+})
+
+test('alpha of Basis Universal payloads comes from the descriptor channels', () => {
+  const etc1s = (channels: number[]) =>
+    parseKTX2(ktx2File({ vkFormat: 0, width: 4, height: 4, colorModel: 163, channels }))
+  assert.equal(etc1s([0]).hasAlpha, false)
+  assert.equal(etc1s([0, 15]).hasAlpha, true)
+  const uastc = (channel: number) =>
+    parseKTX2(ktx2File({ vkFormat: 0, width: 4, height: 4, colorModel: 166, channels: [channel] }))
+  assert.equal(uastc(0).hasAlpha, false)
+  assert.equal(uastc(3).hasAlpha, true)
+  assert.equal(uastc(5).hasAlpha, true)
+})
+
+test('files without KTX2 identifier are rejected', () => {
+  assert.throws(() => parseKTX2(new Uint8Array(80)), /not valid KTX2/)
+})
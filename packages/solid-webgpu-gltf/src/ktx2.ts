@@ -0,0 +1,264 @@
+import type { CompressedTextureImage } from 'solid-webgpu'
+import type { KTX2Transcoder } from './types'
+import { createWorkerPool } from './worker_pool'
+
+const KTX2_IDENTIFIER = [0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a]
+
+const KHR_DF_MODEL_ETC1S = 163
+const KHR_DF_MODEL_UASTC = 166
+const KHR_DF_CHANNEL_ETC1S_AAA = 15
+const KHR_DF_CHANNEL_UASTC_RGBA = 3
+const KHR_DF_CHANNEL_UASTC_RRRG = 5
+
+export type KTX2Level = {
+  data: Uint8Array
+  width: number
+  height: number
+}
+
+export type KTX2Container = {
+  /**
+   * `VK_FORMAT_UNDEFINED` (0) for Basis Universal payloads
+   */
+  vkFormat: number
+  width: number
+  height: number
+  layerCount: number
+  faceCount: number
+  /**
+   * 0 none, 1 BasisLZ, 2 zstd, 3 zlib
+   */
+  supercompressionScheme: number
+  colorModel: number
+  hasAlpha: boolean
+  levels: KTX2Level[]
+}
+
+/**
+ * parse header, level index and basic data format descriptor of a KTX2 file
+ */
+export const parseKTX2 = (data: Uint8Array): KTX2Container => {
+  if (KTX2_IDENTIFIER.some((v, i) => data[i] !== v)) {
+    throw new Error('File is not valid KTX2')
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const vkFormat = view.getUint32(12, true)
+  const width = view.getUint32(20, true)
+  const height = Math.max(view.getUint32(24, true), 1)
+  const layerCount = view.getUint32(32, true)
+  const faceCount = view.getUint32(36, true)
+  const levelCount = Math.max(view.getUint32(40, true), 1)
+  const supercompressionScheme = view.getUint32(44, true)
+  const dfdByteOffset = view.getUint32(48, true)
+
+  const levels = Array.from({ length: levelCount }, (_, i) => {
+    const offset = 80 + i * 24
+    const byteOffset = Number(view.getBigUint64(offset, true))
+    const byteLength = Number(view.getBigUint64(offset + 8, true))
+    return {
+      data: data.subarray(byteOffset, byteOffset + byteLength),
+      width: Math.max(width >> i, 1),
+      height: Math.max(height >> i, 1)
+    }
+  })
+
+  // first descriptor block starts after the total size
+  const block = dfdByteOffset + 4
+  const colorModel = view.getUint8(block + 8)
+  const blockSize = view.getUint16(block + 6, true)
+  const channels = Array.from({ length: (blockSize - 24) / 16 }, (_, i) => view.getUint8(block + 24 + i * 16 + 3) & 0xf)
+  const hasAlpha =
+    colorModel === KHR_DF_MODEL_ETC1S
+      ? channels.includes(KHR_DF_CHANNEL_ETC1S_AAA)
+      : colorModel === KHR_DF_MODEL_UASTC
+        ? channels.includes(KHR_DF_CHANNEL_UASTC_RGBA) || channels.includes(KHR_DF_CHANNEL_UASTC_RRRG)
+        : true
+
+  return { vkFormat, width, height, layerCount, faceCount, supercompressionScheme, colorModel, hasAlpha, levels }
+}
+
+/**
+ * `VkFormat` of KTX2 files stored without Basis Universal payload, sRGB variants map to unorm formats
+ * as material shaders decode color textures themselves
+ */
+const vkFormats: Record<number, GPUTextureFormat> = {
+  37: 'rgba8unorm',
+  43: 'rgba8unorm',
+  97: 'rgba16float',
+  109: 'rgba32float',
+  131: 'bc1-rgba-unorm',
+  133: 'bc1-rgba-unorm',
+  137: 'bc3-rgba-unorm',
+  141: 'bc5-rg-unorm',
+  145: 'bc7-rgba-unorm',
+  146: 'bc7-rgba-unorm',
+  147: 'etc2-rgb8unorm',
+  151: 'etc2-rgba8unorm',
+  157: 'astc-4x4-unorm',
+  158: 'astc-4x4-unorm'
+}
+
+/**
+ * `transcoder_texture_format` of the Basis transcoder and the matching texture format,
+ * in order of preference, RGBA32 is always available
+ */
+const transcodeTargets: { feature?: GPUFeatureName; basis: number; format: GPUTextureFormat; alpha: boolean }[] = [
+  { feature: 'texture-compression-astc', basis: 10, format: 'astc-4x4-unorm', alpha: true },
+  { feature: 'texture-compression-bc', basis: 6, format: 'bc7-rgba-unorm', alpha: true },
+  { feature: 'texture-compression-etc2', basis: 0, format: 'etc2-rgb8unorm', alpha: false },
+  { feature: 'texture-compression-etc2', basis: 1, format: 'etc2-rgba8unorm', alpha: true },
+  { basis: 13, format: 'rgba8unorm', alpha: true }
+]
+
+export type KTX2TranscoderOptions = {
+  /**
+   * url of a directory holding `basis_transcoder.js` and `basis_transcoder.wasm`
+   */
+  transcoderPath: string
+  /**
+   * features of the device sampling the textures, e.g. `device.features`, transcodes to RGBA8 without
+   */
+  features?: ReadonlySet<string>
+  /**
+   * max number of workers transcoding in parallel
+   */
+  workerLimit?: number
+}
+
+type TranscodeRequest = {
+  id: number
+  data: Uint8Array
+  basisFormat: number
+}
+
+/**
+ * members of the Basis Universal wasm module used by the worker, see `basis_transcoder.js`
+ */
+type BasisKTX2File = {
+  isValid: () => boolean
+  startTranscoding: () => boolean
+  getLevels: () => number
+  getImageLevelInfo: (level: number, layer: number, face: number) => { origWidth: number; origHeight: number }
+  getImageTranscodedSizeInBytes: (level: number, layer: number, face: number, format: number) => number
+  transcodeImage: (
+    dst: Uint8Array,
+    level: number,
+    layer: number,
+    face: number,
+    format: number,
+    getAlphaForOpaqueFormats: number,
+    channel0: number,
+    channel1: number
+  ) => boolean
+  close: () => void
+  delete: () => void
+}
+type BasisModule = {
+  KTX2File: new (data: Uint8Array) => BasisKTX2File
+  initializeBasis: () => void
+}
+
+/**
+ * globals of the worker scope, `BASIS` is defined by the imported transcoder
+ */
+declare function importScripts(...urls: string[]): void
+declare function BASIS(options: { wasmBinary: ArrayBuffer }): Promise<BasisModule>
+
+/**
+ * worker body of `createWorkerPool`
+ */
+const basisWorker = () => {
+  let basisModule: Promise<BasisModule> | undefined
+
+  const transcode = (basis: BasisModule, { data, basisFormat }: TranscodeRequest) => {
+    const file = new basis.KTX2File(data)
+    try {
+      if (!file.isValid() || !file.startTranscoding()) {
+        throw new Error('KTX2 transcoding failed')
+      }
+      return Array.from({ length: file.getLevels() }, (_, level) => {
+        const { origWidth, origHeight } = file.getImageLevelInfo(level, 0, 0)
+        const dst = new Uint8Array(file.getImageTranscodedSizeInBytes(level, 0, 0, basisFormat))
+        if (!file.transcodeImage(dst, level, 0, 0, basisFormat, 0, -1, -1)) {
+          throw new Error(`KTX2 transcoding of level ${level} failed`)
+        }
+        return { data: dst, width: origWidth, height: origHeight }
+      })
+    } finally {
+      file.close()
+      file.delete()
+    }
+  }
+
+  self.onmessage = async (e: MessageEvent) => {
+    const message = e.data
+    if (message.type === 'init') {
+      importScripts(message.transcoderURL)
+      basisModule = BASIS({ wasmBinary: message.wasmBinary }).then(basis => {
+        basis.initializeBasis()
+        return basis
+      })
+      return
+    }
+
+    const request = message as TranscodeRequest
+    try {
+      if (!basisModule) {
+        throw new Error('basis worker received a task before init')
+      }
+      const levels = transcode(await basisModule, request)
+      self.postMessage({ id: request.id, result: levels }, { transfer: levels.map(v => v.data.buffer) })
+    } catch (error) {
+      self.postMessage({ id: request.id, error: (error as Error).message })
+    }
+  }
+}
+
+/**
+ * `KHR_texture_basisu` transcoder running the Basis Universal wasm transcoder in a pool of workers,
+ * targets the best compressed format in `features`, KTX2 files of other formats are uploaded as is
+ */
+export const createKTX2Transcoder = (options: KTX2TranscoderOptions) => {
+  // blob workers resolve relative urls against their `blob:` url
+  const base = new URL(
+    options.transcoderPath.endsWith('/') ? options.transcoderPath : `${options.transcoderPath}/`,
+    location.href
+  ).href
+  const pool = createWorkerPool<KTX2Level[]>({
+    body: basisWorker,
+    init: async () => ({
+      transcoderURL: `${base}basis_transcoder.js`,
+      wasmBinary: await fetch(`${base}basis_transcoder.wasm`).then(res => res.arrayBuffer())
+    }),
+    workerLimit: options.workerLimit ?? 4
+  })
+
+  const transcoder: KTX2Transcoder & { dispose: () => void } = {
+    transcode: async data => {
+      const container = parseKTX2(data)
+      if (container.layerCount > 1 || container.faceCount > 1) {
+        throw new Error('Only support KTX2 textures of a single 2d image')
+      }
+
+      if (container.vkFormat !== 0) {
+        const format = vkFormats[container.vkFormat]
+        if (!format || container.supercompressionScheme !== 0) {
+          throw new Error(`unsupported KTX2 vkFormat ${container.vkFormat}`)
+        }
+        const { width, height, levels } = container
+        return { format, width, height, levels } satisfies CompressedTextureImage
+      }
+
+      // block compressed textures need level 0 aligned to 4x4 blocks
+      const aligned = container.width % 4 === 0 && container.height % 4 === 0
+      const target = transcodeTargets.find(v =>
+        v.feature ? aligned && options.features?.has(v.feature) && (v.alpha || !container.hasAlpha) : true
+      )!
+      // worker receives a copy, buffer of the file stays intact
+      const levels = await pool.run({ data: data.slice(), basisFormat: target.basis })
+      return { format: target.format, width: container.width, height: container.height, levels }
+    },
+    dispose: pool.dispose
+  }
+  return transcoder
+}
@@ -0,0 +1,152 @@
+import { For } from 'solid-js'
+import { createStore } from 'solid-js/store'
+import { createAnimationMixer, Object3D } from 'solid-webgpu'
+import { NodesContext, NodesContextProvider, ScenePropsContextProvider } from './context'
+import { GlTF } from './generated/glTF'
+import { getAnimation } from './get_animation'
+import { variantNamesOf } from './get_mesh'
+import { getNode } from './get_node'
+import { decodeMeshoptBufferViews, isMeshoptFallback } from './meshopt'
+import { isGLB, parseGLB } from './parse_glb'
+import { createResourceLoader } from './resource'
+import { GLTFLoaderOptions, GLTFSceneProps, LoaderContext } from './types'
+import { createWithCache } from './utils'
+
+/**
+ * glTF indices of named nodes, meshes and materials
+ */
+const namesOf = (items?: { name?: unknown }[]) =>
+  Object.fromEntries(
+    (items ?? []).flatMap((v, i) => (typeof v.name === 'string' ? [[v.name, i] as const] : []))
+  ) as Record<string, number>
+
+const supportedExtensions = [
+  'EXT_meshopt_compression',
+  'KHR_draco_mesh_compression',
+  'KHR_lights_punctual',
+  'KHR_materials_clearcoat',
+  'KHR_materials_emissive_strength',
+  'KHR_materials_ior',
+  'KHR_materials_sheen',
+  'KHR_materials_specular',
+  'KHR_materials_transmission',
+  'KHR_materials_unlit',
+  'KHR_materials_variants',
+  'KHR_mesh_quantization',
+  'KHR_meshopt_compression',
+  'KHR_texture_basisu',
+  'KHR_texture_transform'
+]
+
+/**
+ * `.gltf` or `.glb` by url, `ArrayBuffer` or `File`, the format is detected from content.
+ * `options` register decoders of compressed geometry & textures, e.g. `createDracoDecoder`, `createKTX2Transcoder`
+ * and `MeshoptDecoder` of `meshoptimizer`, and control how external resources are fetched
+ */
+export const loadGLTF = async (source: string | ArrayBuffer | File, options: GLTFLoaderOptions = {}) => {
+  const base = typeof source === 'string' ? source : (options.baseURL ?? '')
+  const resources = createResourceLoader(options, base)
+  const cacheMap = new Map<string, unknown>()
+
+  let data: ArrayBuffer
+  if (typeof source === 'string') {
+    resources.expect(1)
+    data = await resources.loadURL(source)
+  } else if (source instanceof ArrayBuffer) {
+    data = source
+  } else {
+    data = await source.arrayBuffer()
+  }
+
+  let json: GlTF
+  let bin: ArrayBuffer | undefined
+  if (isGLB(data)) {
+    ;[json, bin] = parseGLB(data)
+  } else {
+    try {
+      json = JSON.parse(new TextDecoder('utf-8').decode(data)) as GlTF
+    } catch {
+      throw new Error('File is neither glTF json nor binary glTF')
+    }
+  }
+
+  const unsupported = json.extensionsRequired?.filter(v => !supportedExtensions.includes(v)) ?? []
+  if (unsupported.length) {
+    console.warn(`gltf requires unsupported extensions, it may render incorrectly: ${unsupported.join(', ')}`)
+  }
+
+  const external =
+    (json.buffers?.filter(v => v.uri !== undefined).length ?? 0) +
+    (json.images?.filter(v => v.uri !== undefined).length ?? 0)
+  resources.expect(external)
+
+  // buffer without uri refers to the binary chunk of glb
+  const buffers = await Promise.all(
+    (json.buffers ?? []).map(async (buffer, i) => {
+      if (buffer.uri !== undefined) {
+        return resources.load(buffer.uri)
+      }
+      if (i === 0 && bin) {
+        return bin
+      }
+      if (isMeshoptFallback(buffer)) {
+        return new ArrayBuffer(0)
+      }
+      throw new Error('buffer.uri not specified')
+    })
+  )
+  options.signal?.throwIfAborted()
+
+  const withCache = createWithCache(cacheMap)
+
+  const context: LoaderContext = {
+    json,
+    buffers,
+    bufferViews: await decodeMeshoptBufferViews(json, buffers, options.meshopt),
+    options,
+    resources,
+    withCache
+  }
+
+  const _node = (i: number) => context.withCache(`node_${i}`, () => getNode(i, context))
+
+  const animations = json.animations?.map((_, i) => getAnimation(i, context)) ?? []
+
+  const scenes = await Promise.all(
+    json.scenes?.map(async scene => {
+      const nodes = await Promise.all(scene.nodes?.map(async nodeIndex => _node(nodeIndex)) ?? [])
+
+      const Scene = (props: GLTFSceneProps) => {
+        const [ids, setIDs] = createStore<NodesContext>({ nodes: {}, meshes: {} })
+        props.mixerRef?.(
+          createAnimationMixer(animations, {
+            resolve: (v, path) => (path === 'weights' ? ids.meshes[v as number] : ids.nodes[v as number])
+          })
+        )
+
+        return (
+          <NodesContextProvider value={[ids, setIDs]}>
+            <ScenePropsContextProvider value={props}>
+              <Object3D>
+                <For each={nodes}>{ChildNode => <ChildNode />}</For>
+              </Object3D>
+            </ScenePropsContextProvider>
+          </NodesContextProvider>
+        )
+      }
+      return Scene
+    }) ?? []
+  )
+  options.signal?.throwIfAborted()
+
+  const names = {
+    scenes: namesOf(json.scenes),
+    nodes: namesOf(json.nodes),
+    meshes: namesOf(json.meshes),
+    materials: namesOf(json.materials),
+    // `KHR_materials_variants` names to pass as `variant` prop
+    variants: variantNamesOf(json)
+  }
+
+  return { json, scenes, animations, names }
+}
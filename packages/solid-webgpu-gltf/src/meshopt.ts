@@ -0,0 +1,68 @@
+import type { GlTF } from './generated/glTF'
+import type { MeshoptDecoder } from './types'
+
+type MeshoptCompression = {
+  buffer: number
+  byteOffset?: number
+  byteLength: number
+  byteStride: number
+  count: number
+  mode: 'ATTRIBUTES' | 'TRIANGLES' | 'INDICES'
+  filter?: 'NONE' | 'OCTAHEDRAL' | 'QUATERNION' | 'EXPONENTIAL'
+}
+
+const extensionNames = ['EXT_meshopt_compression', 'KHR_meshopt_compression']
+
+/**
+ * buffer views compressed by `EXT_meshopt_compression` or `KHR_meshopt_compression`
+ */
+export const hasMeshoptCompression = (json: GlTF) =>
+  json.bufferViews?.some(view => extensionNames.some(name => view.extensions?.[name])) ?? false
+
+/**
+ * fallback buffers of meshopt compressed files have no uri and are never read
+ */
+export const isMeshoptFallback = (buffer: NonNullable<GlTF['buffers']>[number]) =>
+  extensionNames.some(name => !!buffer.extensions?.[name]?.fallback)
+
+/**
+ * decode every compressed buffer view up front, accessors read the result instead of the referenced buffer
+ */
+export const decodeMeshoptBufferViews = async (json: GlTF, buffers: ArrayBuffer[], decoder?: MeshoptDecoder) => {
+  const decoded: Record<number, ArrayBuffer> = {}
+  if (!hasMeshoptCompression(json)) {
+    return decoded
+  }
+  if (!decoder) {
+    throw new Error('meshopt compressed glTF requires `meshopt` decoder in loader options')
+  }
+  await decoder.ready
+
+  await Promise.all(
+    json.bufferViews!.map(async (view, i) => {
+      const name = extensionNames.find(v => view.extensions?.[v])
+      if (!name) {
+        return
+      }
+      const {
+        buffer,
+        byteOffset = 0,
+        byteLength,
+        byteStride,
+        count,
+        mode,
+        filter
+      } = view.extensions![name] as MeshoptCompression
+      const source = new Uint8Array(buffers[buffer], byteOffset, byteLength)
+      if (decoder.decodeGltfBufferAsync) {
+        const result = await decoder.decodeGltfBufferAsync(count, byteStride, source, mode, filter)
+        decoded[i] = result.buffer.slice(result.byteOffset, result.byteOffset + result.byteLength) as ArrayBuffer
+      } else {
+        const target = new Uint8Array(count * byteStride)
+        decoder.decodeGltfBuffer(target, count, byteStride, source, mode, filter)
+        decoded[i] = target.buffer
+      }
+    })
+  )
+  return decoded
+}
@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { GlTF } from './generated/glTF'
+import { isGLB, parseGLB, writeGLB } from './parse_glb'
+
+const json: GlTF = { asset: { version: '2.0' }, buffers: [{ byteLength: 5 }] }
+
+test('writeGLB output parses back to the same json and padded binary chunk', () => {
+  const glb = writeGLB(json, new Uint8Array([1, 2, 3, 4, 5]).buffer)
+  assert.ok(isGLB(glb))
+  assert.equal(glb.byteLength % 4, 0)
+  assert.equal(new DataView(glb).getUint32(8, true), glb.byteLength)
+
+  const [parsed, bin] = parseGLB(glb)
+  assert.deepEqual(parsed, json)
+  assert.deepEqual([...new Uint8Array(bin!)], [1, 2, 3, 4, 5, 0, 0, 0])
+})
+
+test('glb without binary chunk has none after parsing', () => {
+  const [parsed, bin] = parseGLB(writeGLB(json))
+  assert.deepEqual(parsed, json)
+  assert.equal(bin, undefined)
+})
+
+test('json is not detected as glb', () => {
+  assert.equal(isGLB(new TextEncoder().encode(JSON.stringify(json)).buffer), false)
+  assert.throws(() => parseGLB(new ArrayBuffer(12)), /not valid binary glTF/)
+})
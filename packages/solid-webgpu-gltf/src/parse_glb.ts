@@ -4,9 +4,16 @@ const ASCII_GLTF = 0x46546c67 // glTF
 const ASCII_JSON = 0x4e4f534a // JSON
 const ASCII_BIN = 0x004e4942 //  BIN
 
-export const parseGLB = async (url: string): Promise<[GlTF, ArrayBuffer[]]> => {
-  const glb = await fetch(url).then(res => res.arrayBuffer())
+/**
+ * binary glTF starts with magic `glTF`
+ */
+export const isGLB = (data: ArrayBuffer) =>
+  data.byteLength >= 12 && new DataView(data).getUint32(0, true) === ASCII_GLTF
 
+/**
+ * json chunk and the optional binary chunk of a glb file
+ */
+export const parseGLB = (glb: ArrayBuffer): [GlTF, ArrayBuffer | undefined] => {
   const header = new DataView(glb, 0, 12)
   if (header.getUint32(0, true) !== ASCII_GLTF) {
     throw new Error('File is not valid binary glTF')
@@ -31,7 +38,7 @@ export const parseGLB = async (url: string): Promise<[GlTF, ArrayBuffer[]]> => {
   let currentLength = 20 + jsonChunkLength
 
   if (currentLength >= length) {
-    throw new Error('glb parsing error')
+    return [json, undefined]
   }
 
   const chunkHeader = new DataView(glb, currentLength, 8)
@@ -41,6 +48,36 @@ export const parseGLB = async (url: string): Promise<[GlTF, ArrayBuffer[]]> => {
   }
   // pass chunk header
   currentLength += 8
-  const buffers = [glb.slice(currentLength, currentLength + chunkLength)]
-  return [json, buffers]
+  return [json, glb.slice(currentLength, currentLength + chunkLength)]
+}
+
+/**
+ * pack json and binary buffer into a glb file, the inverse of `parseGLB`,
+ * chunks are padded to 4 bytes with spaces and zeros
+ */
+export const writeGLB = (json: GlTF, bin?: ArrayBuffer) => {
+  const jsonBytes = new TextEncoder().encode(JSON.stringify(json))
+  const jsonLength = Math.ceil(jsonBytes.byteLength / 4) * 4
+  const binLength = bin ? Math.ceil(bin.byteLength / 4) * 4 : 0
+  const length = 12 + 8 + jsonLength + (bin ? 8 + binLength : 0)
+
+  const glb = new ArrayBuffer(length)
+  const view = new DataView(glb)
+  const bytes = new Uint8Array(glb)
+  view.setUint32(0, ASCII_GLTF, true)
+  view.setUint32(4, 2, true)
+  view.setUint32(8, length, true)
+
+  view.setUint32(12, jsonLength, true)
+  view.setUint32(16, ASCII_JSON, true)
+  bytes.fill(0x20, 20, 20 + jsonLength)
+  bytes.set(jsonBytes, 20)
+
+  if (bin) {
+    const offset = 20 + jsonLength
+    view.setUint32(offset, binLength, true)
+    view.setUint32(offset + 4, ASCII_BIN, true)
+    bytes.set(new Uint8Array(bin), offset + 8)
+  }
+  return glb
 }
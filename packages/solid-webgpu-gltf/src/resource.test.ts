@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { createResourceLoader, decodeDataURI, resolveURI } from './resource'
+
+test('relative uris resolve against the directory of the glTF file', () => {
+  assert.equal(resolveURI('../../static/suzanne.gltf', 'suzanne.bin'), '../../static/suzanne.bin')
+  assert.equal(resolveURI('https://example.com/a/b.gltf', 'textures/c.png'), 'https://example.com/a/textures/c.png')
+  assert.equal(resolveURI('b.gltf', 'c.bin'), 'c.bin')
+})
+
+test('absolute uris are used as is', () => {
+  assert.equal(resolveURI('a/b.gltf', '/c.bin'), '/c.bin')
+  assert.equal(resolveURI('a/b.gltf', 'https://example.com/c.bin'), 'https://example.com/c.bin')
+  assert.equal(resolveURI('a/b.gltf', 'data:,x'), 'data:,x')
+})
+
+test('base64 and percent encoded data uris are decoded', () => {
+  assert.deepEqual([...new Uint8Array(decodeDataURI('data:application/octet-stream;base64,AQID/w=='))], [1, 2, 3, 255])
+  assert.equal(new TextDecoder().decode(decodeDataURI('data:text/plain,a%20b')), 'a b')
+  assert.throws(() => decodeDataURI('data:text/plain'), /invalid data uri/)
+})
+
+test('the glTF url is fetched as given, referenced resources resolve against it', async () => {
+  const fetched: string[] = []
+  const resolved: string[] = []
+  const resources = createResourceLoader(
+    {
+      fetch: async url => {
+        fetched.push(url)
+        return new Response(new Uint8Array([1, 2]))
+      },
+      resolveURI: (uri, base) => {
+        resolved.push(uri)
+        return resolveURI(base, uri)
+      }
+    },
+    '../../static/suzanne.glb'
+  )
+  resources.expect(2)
+  await resources.loadURL('../../static/suzanne.glb')
+  await resources.load('suzanne.bin')
+  await resources.load('data:,abc')
+
+  assert.deepEqual(fetched, ['../../static/suzanne.glb', '../../static/suzanne.bin'])
+  assert.deepEqual(resolved, ['suzanne.bin', 'data:,abc'])
+  assert.deepEqual(resources.progress, { loadedBytes: 7, loadedAssets: 3, totalAssets: 2 })
+})
+
+test('aborted loads reject before fetching', async () => {
+  const controller = new AbortController()
+  controller.abort()
+  const resources = createResourceLoader(
+    { signal: controller.signal, fetch: () => assert.fail('fetched after abort') },
+    'a.gltf'
+  )
+  await assert.rejects(resources.load('a.bin'))
+})
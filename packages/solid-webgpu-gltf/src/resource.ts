@@ -0,0 +1,108 @@
+import type { GLTFLoaderOptions, GLTFLoadProgress } from './types'
+
+/**
+ * data, blob and other scheme URIs as well as root relative paths are used as is
+ */
+const isAbsoluteURI = (uri: string) => /^([a-z][a-z\d+.-]*:|\/)/i.test(uri)
+
+/**
+ * resolve `uri` of a buffer or image against the directory of the glTF file
+ */
+export const resolveURI = (base: string, uri: string) => {
+  if (isAbsoluteURI(uri)) {
+    return uri
+  }
+  const dir = base.slice(0, base.lastIndexOf('/') + 1)
+  return dir + uri
+}
+
+/**
+ * decode base64 or percent encoded data URI without a request
+ */
+export const decodeDataURI = (uri: string) => {
+  const match = uri.match(/^data:([^,]*?)(;base64)?,(.*)$/s)
+  if (!match) {
+    throw new Error('invalid data uri')
+  }
+  if (!match[2]) {
+    return new TextEncoder().encode(decodeURIComponent(match[3])).buffer as ArrayBuffer
+  }
+  const binary = atob(match[3])
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes.buffer
+}
+
+/**
+ * fetch external resources of a glTF file through `options.fetch` with abort & progress reporting,
+ * `base` is the url of the glTF file relative URIs resolve against
+ */
+export const createResourceLoader = (options: GLTFLoaderOptions, base: string) => {
+  const progress: GLTFLoadProgress = { loadedBytes: 0, loadedAssets: 0, totalAssets: 0 }
+  const report = () => options.onProgress?.({ ...progress })
+
+  const read = async (response: Response) => {
+    if (!response.ok) {
+      throw new Error(`failed to load ${response.url}: ${response.status} ${response.statusText}`)
+    }
+    if (!response.body) {
+      const data = await response.arrayBuffer()
+      progress.loadedBytes += data.byteLength
+      return data
+    }
+    // count bytes as they arrive
+    const reader = response.body.getReader()
+    const chunks: Uint8Array[] = []
+    let length = 0
+    for (let r = await reader.read(); !r.done; r = await reader.read()) {
+      chunks.push(r.value)
+      length += r.value.byteLength
+      progress.loadedBytes += r.value.byteLength
+      report()
+    }
+    const data = new Uint8Array(length)
+    let offset = 0
+    for (const chunk of chunks) {
+      data.set(chunk, offset)
+      offset += chunk.byteLength
+    }
+    return data.buffer
+  }
+
+  const loadURL = async (url: string) => {
+    options.signal?.throwIfAborted()
+    let data: ArrayBuffer
+    if (url.startsWith('data:')) {
+      data = decodeDataURI(url)
+      progress.loadedBytes += data.byteLength
+    } else {
+      data = await read(await (options.fetch ?? fetch)(url, { signal: options.signal }))
+    }
+    progress.loadedAssets++
+    report()
+    return data
+  }
+
+  return {
+    progress,
+    /**
+     * announce assets before loading them so `totalAssets` is known early
+     */
+    expect: (count: number) => {
+      progress.totalAssets += count
+      report()
+    },
+    /**
+     * load `uri` of a buffer or image, resolved against `base`
+     */
+    load: (uri: string) => loadURL(options.resolveURI ? options.resolveURI(uri, base) : resolveURI(base, uri)),
+    /**
+     * load the glTF file itself, its url is used as is
+     */
+    loadURL
+  }
+}
+
+export type ResourceLoader = ReturnType<typeof createResourceLoader>
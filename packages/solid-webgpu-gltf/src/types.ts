@@ -1,8 +1,125 @@
+import type { JSX } from 'solid-js'
+import type { AnimationMixer, CompressedTextureImage, MeshRef, Object3DContext, TypedArray } from 'solid-webgpu'
 import type { GlTF } from './generated/glTF'
+import type { ResourceLoader } from './resource'
 import type { WithCache } from './utils'
 
+export type DracoAttribute = {
+  /**
+   * unique id of attribute in draco stream
+   */
+  id: number
+  /**
+   * accessor component type, decoded data uses the matching typed array
+   */
+  componentType: number
+}
+
+export type DecodedGeometry = {
+  index?: Uint32Array
+  attributes: Record<string, TypedArray>
+}
+
+/**
+ * decodes `KHR_draco_mesh_compression` primitives, see `createDracoDecoder`
+ */
+export type DracoDecoder = {
+  decode: (data: Uint8Array, attributes: Record<string, DracoAttribute>) => Promise<DecodedGeometry>
+}
+
+/**
+ * subset of `MeshoptDecoder` from `meshoptimizer`, `decodeGltfBufferAsync` runs in its workers when enabled
+ */
+export type MeshoptDecoder = {
+  ready: Promise<void>
+  decodeGltfBuffer: (
+    target: Uint8Array,
+    count: number,
+    size: number,
+    source: Uint8Array,
+    mode: string,
+    filter?: string
+  ) => void
+  decodeGltfBufferAsync?: (
+    count: number,
+    size: number,
+    source: Uint8Array,
+    mode: string,
+    filter?: string
+  ) => Promise<Uint8Array>
+}
+
+/**
+ * turns KTX2 files of `KHR_texture_basisu` into texture levels, see `createKTX2Transcoder`
+ */
+export type KTX2Transcoder = {
+  transcode: (data: Uint8Array) => Promise<CompressedTextureImage>
+}
+
+export type GLTFLoadProgress = {
+  /**
+   * bytes of the file and its external resources received so far
+   */
+  loadedBytes: number
+  /**
+   * external buffers & images loaded, the file itself counts as one when loaded by url
+   */
+  loadedAssets: number
+  totalAssets: number
+}
+
+export type GLTFLoaderOptions = {
+  draco?: DracoDecoder
+  meshopt?: MeshoptDecoder
+  ktx2?: KTX2Transcoder
+  /**
+   * replaces global `fetch` for the file and its external resources
+   */
+  fetch?: (url: string, init: RequestInit) => Promise<Response>
+  /**
+   * url of an external resource, defaults to `uri` relative to the directory of the glTF file,
+   * data uris are decoded without fetching
+   */
+  resolveURI?: (uri: string, base: string) => string
+  /**
+   * url relative resources resolve against when loading from `ArrayBuffer` or `File`
+   */
+  baseURL?: string
+  signal?: AbortSignal
+  onProgress?: (progress: GLTFLoadProgress) => void
+}
+
+export type GLTFSceneProps = {
+  /**
+   * receive a mixer playing `animations` of the loaded file on this scene instance
+   */
+  mixerRef?: (mixer: AnimationMixer) => void
+  /**
+   * `Object3D` of nodes by glTF name
+   */
+  nodeRefs?: Record<string, (node: Object3DContext) => void>
+  /**
+   * `Mesh` of every primitive of meshes by glTF name
+   */
+  meshRefs?: Record<string, (mesh: MeshRef) => void>
+  /**
+   * replace materials by glTF name
+   */
+  materials?: Record<string, () => JSX.Element>
+  /**
+   * name of a `KHR_materials_variants` variant, primitives without a mapping keep their material
+   */
+  variant?: string
+}
+
 export type LoaderContext = {
   json: GlTF
   buffers: ArrayBuffer[]
+  /**
+   * buffer views decoded by extensions, replacing the referenced buffer range
+   */
+  bufferViews: Record<number, ArrayBuffer>
+  options: GLTFLoaderOptions
+  resources: ResourceLoader
   withCache: WithCache
 }
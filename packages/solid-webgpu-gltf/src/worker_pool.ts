@@ -0,0 +1,101 @@
+type WorkerResponse<T> = { id: number; result: T } | { id: number; error: string }
+
+export type WorkerPoolOptions = {
+  /**
+   * worker body, stringified into a blob so decoders do not need a separate bundle entry,
+   * it receives `{ type: 'init', ...init }` first, then `{ id, ...task }` and answers `{ id, result }` or `{ id, error }`
+   */
+  body: () => void
+  /**
+   * init message shared by every worker, e.g. the fetched wasm binary
+   */
+  init: () => Promise<Record<string, unknown>>
+  workerLimit: number
+}
+
+type PoolWorker = { worker: Worker; ready: Promise<void>; load: number }
+
+/**
+ * spread tasks over a lazily grown pool of workers, least busy worker first
+ */
+export const createWorkerPool = <T>(options: WorkerPoolOptions) => {
+  const workerURL = URL.createObjectURL(new Blob([`(${options.body.toString()})()`], { type: 'text/javascript' }))
+  const workers: PoolWorker[] = []
+  const pending = new Map<number, { entry: PoolWorker; resolve: (v: T) => void; reject: (e: Error) => void }>()
+  let init: Promise<Record<string, unknown>> | undefined
+  let nextID = 0
+
+  /**
+   * terminate a failed worker, its tasks are rejected and later tasks go to a new one
+   */
+  const drop = (entry: PoolWorker, error: Error) => {
+    entry.worker.terminate()
+    const index = workers.indexOf(entry)
+    if (index >= 0) {
+      workers.splice(index, 1)
+    }
+    for (const [id, task] of pending) {
+      if (task.entry === entry) {
+        pending.delete(id)
+        task.reject(error)
+      }
+    }
+  }
+
+  const getWorker = () => {
+    // a failed init, e.g. a wasm fetch, is retried by the next task
+    init ??= options.init().catch(e => {
+      init = undefined
+      throw e
+    })
+    if (workers.length < options.workerLimit) {
+      const worker = new Worker(workerURL)
+      const entry: PoolWorker = { worker, ready: Promise.resolve(), load: 0 }
+      entry.ready = init.then(
+        message => worker.postMessage({ ...message, type: 'init' }),
+        e => {
+          drop(entry, e)
+          throw e
+        }
+      )
+      worker.onmessage = (e: MessageEvent<WorkerResponse<T>>) => {
+        const message = e.data
+        const task = pending.get(message.id)
+        pending.delete(message.id)
+        if ('error' in message) {
+          task?.reject(new Error(message.error))
+        } else {
+          task?.resolve(message.result)
+        }
+      }
+      worker.onerror = e => drop(entry, new Error(`worker failed: ${e.message}`))
+      worker.onmessageerror = () => drop(entry, new Error('worker message could not be deserialized'))
+      workers.push(entry)
+    }
+    return workers.reduce((a, b) => (b.load < a.load ? b : a))
+  }
+
+  return {
+    run: async (task: Record<string, unknown>, transfer: Transferable[] = []) => {
+      const entry = getWorker()
+      entry.load++
+      try {
+        await entry.ready
+        const id = nextID++
+        return await new Promise<T>((resolve, reject) => {
+          pending.set(id, { entry, resolve, reject })
+          entry.worker.postMessage({ ...task, id }, transfer)
+        })
+      } finally {
+        entry.load--
+      }
+    },
+    dispose: () => {
+      workers.forEach(v => v.worker.terminate())
+      workers.length = 0
+      pending.forEach(v => v.reject(new Error('worker pool disposed')))
+      pending.clear()
+      URL.revokeObjectURL(workerURL)
+    }
+  }
+}
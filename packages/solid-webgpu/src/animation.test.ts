@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { KeyframeTrack, sampleTrack } from './animation'
+
+const track = (track: Omit<KeyframeTrack, 'target' | 'times' | 'values'> & { times: number[]; values: number[] }) => ({
+  ...track,
+  target: 'node',
+  times: new Float32Array(track.times),
+  values: new Float32Array(track.values)
+})
+
+const assertClose = (actual: Float32Array, expected: number[]) => {
+  assert.equal(actual.length, expected.length)
+  expected.forEach((v, i) => assert.ok(Math.abs(actual[i] - v) < 1e-5, `[${[...actual]}] != [${expected}]`))
+}
+
+test('STEP holds the previous keyframe', () => {
+  const t = track({ path: 'translation', interpolation: 'STEP', times: [0, 1, 2], values: [0, 0, 0, 1, 2, 3, 4, 5, 6] })
+  assertClose(sampleTrack(t, 0.99, new Float32Array(3)), [0, 0, 0])
+  assertClose(sampleTrack(t, 1.5, new Float32Array(3)), [1, 2, 3])
+})
+
+test('LINEAR interpolates and clamps to the first & last keyframe', () => {
+  const t = track({ path: 'scale', interpolation: 'LINEAR', times: [1, 3], values: [1, 1, 1, 3, 5, 7] })
+  assertClose(sampleTrack(t, 2.5, new Float32Array(3)), [2.5, 4, 5.5])
+  assertClose(sampleTrack(t, 0, new Float32Array(3)), [1, 1, 1])
+  assertClose(sampleTrack(t, 10, new Float32Array(3)), [3, 5, 7])
+})
+
+test('LINEAR rotation slerps quaternions', () => {
+  const t = track({
+    path: 'rotation',
+    interpolation: 'LINEAR',
+    times: [0, 1],
+    values: [0, 0, 0, 1, 0, 0, Math.SQRT1_2, Math.SQRT1_2]
+  })
+  const half = Math.PI / 8
+  assertClose(sampleTrack(t, 0.5, new Float32Array(4)), [0, 0, Math.sin(half), Math.cos(half)])
+})
+
+test('CUBICSPLINE follows the hermite spline with tangents scaled by the keyframe interval', () => {
+  // in-tangent, value, out-tangent per keyframe
+  const t = track({
+    path: 'weights',
+    interpolation: 'CUBICSPLINE',
+    times: [0, 2],
+    values: [0, 0, 1, 0, 1, 0]
+  })
+  // s = 0.25, dt = 2: h10 * dt * m0 + h01 * p1
+  const s = 0.25
+  const expected = (s ** 3 - 2 * s ** 2 + s) * 2 + (-2 * s ** 3 + 3 * s ** 2)
+  assertClose(sampleTrack(t, 0.5, new Float32Array(1)), [expected])
+  assertClose(sampleTrack(t, 2, new Float32Array(1)), [1])
+})
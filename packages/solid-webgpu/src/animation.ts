@@ -0,0 +1,429 @@
+import { Quat, Vec3 } from 'math'
+import { batch } from 'solid-js'
+import { useSceneContext } from './context'
+import { MeshContext } from './types'
+import { useFrame } from './use_frame'
+
+export type Interpolation = 'LINEAR' | 'STEP' | 'CUBICSPLINE'
+export type AnimationPath = 'translation' | 'rotation' | 'scale' | 'weights'
+
+export type KeyframeTrack = {
+  /**
+   * node id, or any key known to `resolve` of the mixer, e.g. a glTF node index,
+   * `weights` tracks target `morphWeights` of meshes
+   */
+  target: string | number
+  path: AnimationPath
+  interpolation: Interpolation
+  /**
+   * keyframe times in seconds, ascending
+   */
+  times: Float32Array
+  /**
+   * vec3, quaternion or one weight per morph target for each keyframe,
+   * `CUBICSPLINE` stores in-tangent, value and out-tangent
+   */
+  values: Float32Array
+}
+
+export type AnimationClip = {
+  name: string
+  /**
+   * seconds
+   */
+  duration: number
+  tracks: KeyframeTrack[]
+}
+
+/**
+ * `once` holds the last pose, `pingpong` plays forward and backward
+ */
+export type LoopMode = 'once' | 'repeat' | 'pingpong'
+
+export type AnimationAction = {
+  clip: AnimationClip
+  /**
+   * seconds into the clip
+   */
+  time: number
+  timeScale: number
+  /**
+   * blend weight against other running actions
+   */
+  weight: number
+  loop: LoopMode
+  /**
+   * contributes to the pose
+   */
+  running: boolean
+  /**
+   * holds current pose without advancing time
+   */
+  paused: boolean
+  play: () => AnimationAction
+  pause: () => AnimationAction
+  stop: () => AnimationAction
+  fadeIn: (duration: number) => AnimationAction
+  fadeOut: (duration: number) => AnimationAction
+  /**
+   * start `action` from the beginning and blend over to it within `duration` seconds
+   */
+  crossFadeTo: (action: AnimationAction, duration: number) => AnimationAction
+}
+
+export type AnimationMixer = {
+  timeScale: number
+  clips: AnimationClip[]
+  /**
+   * action of a clip or clip name, created once per clip
+   */
+  action: (clip: AnimationClip | string) => AnimationAction
+  stopAll: () => void
+  /**
+   * advance running actions by `delta` seconds and write the blended pose to nodes,
+   * called by the render loop
+   */
+  update: (delta: number) => void
+}
+
+export type AnimationMixerOptions = {
+  /**
+   * node ids of a track target, defaults to string targets as node ids
+   */
+  resolve?: (target: string | number, path: AnimationPath) => string | string[] | undefined
+}
+
+type Fade = { from: number; to: number; duration: number; elapsed: number }
+type Binding = { nodes: string[]; path: AnimationPath; value: Float32Array; weight: number }
+
+/**
+ * components of a keyframe value
+ */
+const valueSize = (track: KeyframeTrack) => {
+  if (track.path === 'rotation') {
+    return 4
+  }
+  if (track.path === 'weights') {
+    return track.values.length / track.times.length / (track.interpolation === 'CUBICSPLINE' ? 3 : 1)
+  }
+  return 3
+}
+
+const lerp = (out: Float32Array, a: Float32Array, b: Float32Array, t: number) => {
+  for (let i = 0; i < out.length; i++) {
+    out[i] = a[i] + (b[i] - a[i]) * t
+  }
+  return out
+}
+
+const findKeyframe = (times: Float32Array, t: number) => {
+  let low = 0
+  let high = times.length - 1
+  while (low < high - 1) {
+    const mid = (low + high) >> 1
+    if (times[mid] <= t) {
+      low = mid
+    } else {
+      high = mid
+    }
+  }
+  return low
+}
+
+/**
+ * sample `track` at `t` seconds into `out`
+ */
+export const sampleTrack = (track: KeyframeTrack, t: number, out: Float32Array) => {
+  const { times, values, interpolation, path } = track
+  const size = valueSize(track)
+  const rotation = path === 'rotation'
+  const cubic = interpolation === 'CUBICSPLINE'
+  const stride = cubic ? size * 3 : size
+  const valueOffset = cubic ? size : 0
+  const last = times.length - 1
+  const keyframe = (i: number) => values.subarray(i * stride + valueOffset, i * stride + valueOffset + size)
+
+  if (t <= times[0] || last === 0) {
+    out.set(keyframe(0))
+    return out
+  }
+  if (t >= times[last]) {
+    out.set(keyframe(last))
+    return out
+  }
+
+  const i = findKeyframe(times, t)
+  const dt = times[i + 1] - times[i]
+  const s = (t - times[i]) / dt
+
+  if (interpolation === 'STEP') {
+    out.set(keyframe(i))
+  } else if (interpolation === 'LINEAR') {
+    if (rotation) {
+      Quat.slerp(out, keyframe(i), keyframe(i + 1), s)
+    } else {
+      lerp(out, keyframe(i), keyframe(i + 1), s)
+    }
+  } else {
+    // hermite spline, tangents are scaled by keyframe interval
+    const s2 = s * s
+    const s3 = s2 * s
+    const p0 = i * stride + size
+    const m0 = i * stride + size * 2
+    const m1 = (i + 1) * stride
+    const p1 = (i + 1) * stride + size
+    for (let k = 0; k < size; k++) {
+      out[k] =
+        (2 * s3 - 3 * s2 + 1) * values[p0 + k] +
+        (s3 - 2 * s2 + s) * dt * values[m0 + k] +
+        (-2 * s3 + 3 * s2) * values[p1 + k] +
+        (s3 - s2) * dt * values[m1 + k]
+    }
+    if (rotation) {
+      Quat.normalize(out, out)
+    }
+  }
+  return out
+}
+
+/**
+ * play `AnimationClip`s on `Object3D` nodes of the scene, driven by the render loop
+ */
+export const createAnimationMixer = (clips: AnimationClip[], options?: AnimationMixerOptions) => {
+  const [scene] = useSceneContext()
+  const resolve = options?.resolve ?? ((target: string | number) => (typeof target === 'string' ? target : undefined))
+  const actions = new Map<AnimationClip, AnimationAction>()
+  const fades = new Map<AnimationAction, Fade>()
+  /**
+   * value of each animated node & path before the mixer first wrote it, partial weights blend towards it,
+   * `blended` holds the result so frames don't allocate
+   */
+  const restPose = new Map<string, { rest: Float32Array; blended: Float32Array }>()
+  /**
+   * sampled value of each track, reused every frame
+   */
+  const samples = new WeakMap<KeyframeTrack, Float32Array>()
+
+  const poseOf = (node: string, path: string, o3d: MeshContext, size: number) => {
+    const key = `${node}:${path}`
+    let pose = restPose.get(key)
+    if (!pose) {
+      const current =
+        path === 'translation'
+          ? o3d.position()
+          : path === 'rotation'
+            ? o3d.quaternion()
+            : path === 'scale'
+              ? o3d.scale()
+              : o3d.morphWeights?.()
+      const rest = new Float32Array(size)
+      rest.set(Array.from(current ?? []).slice(0, size))
+      pose = { rest, blended: new Float32Array(size) }
+      restPose.set(key, pose)
+    }
+    return pose
+  }
+
+  const fade = (action: AnimationAction, to: number, duration: number) => {
+    if (duration <= 0) {
+      fades.delete(action)
+      action.weight = to
+    } else {
+      fades.set(action, { from: action.weight, to, duration, elapsed: 0 })
+    }
+    scene.invalidate()
+  }
+
+  const createAction = (clip: AnimationClip) => {
+    const action: AnimationAction = {
+      clip,
+      time: 0,
+      timeScale: 1,
+      weight: 1,
+      loop: 'repeat',
+      running: false,
+      paused: false,
+      play: () => {
+        if (action.loop === 'once' && action.time >= clip.duration) {
+          action.time = 0
+        }
+        action.running = true
+        action.paused = false
+        scene.invalidate()
+        return action
+      },
+      pause: () => {
+        action.paused = true
+        return action
+      },
+      stop: () => {
+        action.running = false
+        action.paused = false
+        action.time = 0
+        fades.delete(action)
+        scene.invalidate()
+        return action
+      },
+      fadeIn: duration => {
+        action.weight = 0
+        action.play()
+        fade(action, 1, duration)
+        return action
+      },
+      fadeOut: duration => {
+        fade(action, 0, duration)
+        return action
+      },
+      crossFadeTo: (next, duration) => {
+        next.time = 0
+        next.fadeIn(duration)
+        action.fadeOut(duration)
+        return action
+      }
+    }
+    return action
+  }
+
+  const advance = (action: AnimationAction, delta: number) => {
+    const { duration } = action.clip
+    let time = action.time + delta * action.timeScale * mixer.timeScale
+    if (duration <= 0) {
+      time = 0
+    } else if (action.loop === 'repeat') {
+      time = ((time % duration) + duration) % duration
+    } else if (action.loop === 'pingpong') {
+      // negative time scale mirrors the same way
+      const period = duration * 2
+      if (time < 0 || time > period) {
+        time = ((time % period) + period) % period
+      }
+    } else if (time >= duration || time <= 0) {
+      time = Math.min(Math.max(time, 0), duration)
+      action.paused = true
+    }
+    action.time = time
+  }
+
+  const localTime = (action: AnimationAction) => {
+    const { duration } = action.clip
+    return action.loop === 'pingpong' && action.time > duration ? duration * 2 - action.time : action.time
+  }
+
+  const updateFade = (action: AnimationAction, delta: number) => {
+    const f = fades.get(action)
+    if (!f) {
+      return
+    }
+    f.elapsed += delta
+    const s = Math.min(f.elapsed / f.duration, 1)
+    action.weight = f.from + (f.to - f.from) * s
+    if (s === 1) {
+      fades.delete(action)
+      if (f.to === 0) {
+        action.stop()
+      }
+    }
+  }
+
+  const mixer: AnimationMixer = {
+    timeScale: 1,
+    clips,
+    action: clip => {
+      const c = typeof clip === 'string' ? clips.find(v => v.name === clip) : clip
+      if (!c) {
+        throw new Error(`animation clip ${clip} not found`)
+      }
+      let action = actions.get(c)
+      if (!action) {
+        action = createAction(c)
+        actions.set(c, action)
+      }
+      return action
+    },
+    stopAll: () => actions.forEach(v => v.stop()),
+    update: delta => {
+      const bindings = new Map<string, Binding>()
+
+      for (const action of actions.values()) {
+        if (!action.running) {
+          continue
+        }
+        if (!action.paused) {
+          advance(action, delta)
+        }
+        updateFade(action, delta)
+        if (!action.running || action.weight <= 0) {
+          continue
+        }
+
+        const time = localTime(action)
+        for (const track of action.clip.tracks) {
+          const nodes = [resolve(track.target, track.path) ?? []].flat().filter(v => scene.nodes[v])
+          if (!nodes.length) {
+            continue
+          }
+          const key = `${nodes.join(',')}:${track.path}`
+          let sample = samples.get(track)
+          if (!sample) {
+            sample = new Float32Array(valueSize(track))
+            samples.set(track, sample)
+          }
+          sampleTrack(track, time, sample)
+          let binding = bindings.get(key)
+          if (!binding || binding.value.length !== sample.length) {
+            binding = { nodes, path: track.path, value: sample, weight: action.weight }
+            bindings.set(key, binding)
+            continue
+          }
+
+          // running weighted average of all actions
+          const s = action.weight / (binding.weight + action.weight)
+          if (track.path === 'rotation') {
+            Quat.slerp(binding.value, binding.value, sample, s)
+          } else {
+            lerp(binding.value, binding.value, sample, s)
+          }
+          binding.weight += action.weight
+        }
+      }
+
+      batch(() => {
+        for (const { nodes, path, value: sampled, weight } of bindings.values()) {
+          for (const node of nodes) {
+            const o3d = scene.nodes[node] as MeshContext
+            const { rest, blended } = poseOf(node, path, o3d, sampled.length)
+            let value = sampled
+            if (weight < 1) {
+              // a lone action fading in or out only covers part of the pose
+              value = blended
+              if (path === 'rotation') {
+                Quat.slerp(value, rest, sampled, weight)
+              } else {
+                lerp(value, rest, sampled, weight)
+              }
+            }
+            if (path === 'translation') {
+              o3d.setPosition(v => Vec3.copy(v, value))
+            } else if (path === 'rotation') {
+              o3d.setQuaternion(v => Quat.copy(v, value))
+            } else if (path === 'scale') {
+              o3d.setScale(v => Vec3.copy(v, value))
+            } else {
+              o3d.setMorphWeights?.(value)
+            }
+          }
+        }
+      })
+    }
+  }
+
+  useFrame((_, delta) => {
+    mixer.update(delta / 1000)
+    const active = [...actions.values()].some(v => v.running && (!v.paused || fades.has(v)))
+    if (active) {
+      scene.invalidate()
+    }
+  })
+
+  return mixer
+}
@@ -0,0 +1,197 @@
+import { Mat4, Vec3, Vec3Like } from 'math'
+import { createEffect, createMemo, onCleanup } from 'solid-js'
+import { SetStoreFunction } from 'solid-js/store'
+import shaderCode from './background.wgsl?raw'
+import { SceneContext, useSceneContext } from './context'
+import { HDRImage } from './hdr'
+import { createHDRTexture } from './ibl'
+import { withColorManagement } from './material/color_management'
+import { BackgroundType, CameraContext } from './types'
+
+/**
+ * struct BackgroundUniforms, 112 bytes
+ */
+const backgroundData = new Float32Array(28)
+const backgroundDataView = new DataView(backgroundData.buffer)
+const tempView = Mat4.create()
+
+const backgroundTypes: Record<BackgroundType, number> = {
+  color: 0,
+  gradient: 1,
+  equirect: 2,
+  cube: 3
+}
+
+/**
+ * `Background` of scene, or environment cube when `Environment` has `background`
+ */
+const resolveBackground = (scene: SceneContext) => {
+  const { background, environment } = scene
+  if (background.backgroundType) {
+    return { backgroundType: background.backgroundType, texture: background.texture, intensity: background.intensity }
+  }
+  if (environment.background && environment.cube) {
+    return { backgroundType: 'cube' as const, texture: environment.cube, intensity: environment.intensity }
+  }
+}
+
+/**
+ * pipeline drawing background on far plane
+ */
+export const createBackground = (scene: SceneContext, setScene: SetStoreFunction<SceneContext>) => {
+  const resolved = createMemo(() => resolveBackground(scene)?.backgroundType)
+
+  createEffect(() => {
+    const { device, format, samples, toneMapping, outputColorSpace } = scene
+    if (!resolved()) {
+      setScene('background', { pipeline: undefined, bindGroup: undefined, buffer: undefined })
+      return
+    }
+
+    const module = device.createShaderModule({ code: withColorManagement(shaderCode, toneMapping, outputColorSpace) })
+    const pipeline = device.createRenderPipeline({
+      label: 'background pipeline',
+      layout: 'auto',
+      vertex: { module, entryPoint: 'vs_main' },
+      fragment: { module, entryPoint: 'fs_main', targets: [{ format }] },
+      primitive: { topology: 'triangle-list' },
+      depthStencil: {
+        depthWriteEnabled: false,
+        depthCompare: 'less-equal',
+        format: 'depth24plus-stencil8'
+      },
+      multisample: { count: samples }
+    })
+    const buffer = device.createBuffer({
+      label: 'background buffer',
+      size: backgroundData.byteLength,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST
+    })
+    const sampler = device.createSampler({ magFilter: 'linear', minFilter: 'linear', addressModeU: 'repeat' })
+    setScene('background', { pipeline, buffer })
+
+    createEffect(() => {
+      const { placeholderCube, placeholderLut } = scene.environment
+      const background = resolveBackground(scene)
+      if (!placeholderCube || !placeholderLut || !background) {
+        return
+      }
+      const texture = background.texture
+      const is = (type: BackgroundType) => background.backgroundType === type && texture
+      setScene(
+        'background',
+        'bindGroup',
+        device.createBindGroup({
+          layout: pipeline.getBindGroupLayout(0),
+          entries: [
+            { binding: 0, resource: { buffer } },
+            { binding: 1, resource: (is('equirect') ? texture! : placeholderLut).createView() },
+            { binding: 2, resource: (is('cube') ? texture! : placeholderCube).createView({ dimension: 'cube' }) },
+            { binding: 3, resource: sampler }
+          ]
+        })
+      )
+    })
+
+    onCleanup(() => buffer.destroy())
+  })
+}
+
+/**
+ * draw background after opaque meshes, only where depth is still on far plane
+ */
+export const drawBackground = (scene: SceneContext, passEncoder: GPURenderPassEncoder) => {
+  const { device, currentCamera, background } = scene
+  const resolved = resolveBackground(scene)
+  if (!currentCamera || !resolved || !background.pipeline || !background.bindGroup || !background.buffer) {
+    return
+  }
+  const camera = scene.nodes[currentCamera] as CameraContext
+
+  Mat4.copy(tempView, camera.viewMatrix())
+  tempView[12] = tempView[13] = tempView[14] = 0
+  const inverse = backgroundData.subarray(0, 16)
+  Mat4.mul(inverse, camera.projectionMatrix(), tempView)
+  Mat4.invert(inverse, inverse)
+  const gradient = resolved.backgroundType === 'gradient'
+  Vec3.copy(backgroundData.subarray(16, 19), background.top)
+  Vec3.copy(backgroundData.subarray(20, 23), gradient ? background.bottom : background.top)
+  backgroundData[23] = resolved.intensity
+  backgroundDataView.setUint32(24 * 4, backgroundTypes[resolved.backgroundType], true)
+  backgroundDataView.setUint32(25 * 4, resolved.texture?.format.includes('float') ? 1 : 0, true)
+  device.queue.writeBuffer(background.buffer, 0, backgroundData)
+
+  passEncoder.setPipeline(background.pipeline)
+  passEncoder.setBindGroup(0, background.bindGroup)
+  passEncoder.draw(3)
+}
+
+export type BackgroundProps = {
+  /**
+   * sRGB solid color
+   */
+  color?: Vec3Like
+  /**
+   * sRGB colors from top to bottom of world up axis
+   */
+  gradient?: [top: Vec3Like, bottom: Vec3Like]
+  /**
+   * equirectangular image, `HDRImage` and float textures are tone mapped
+   */
+  equirect?: GPUTexture | ImageBitmap | HDRImage
+  /**
+   * texture with 6 layers in order +X, -X, +Y, -Y, +Z, -Z
+   */
+  cube?: GPUTexture
+  /**
+   * multiplier of equirect & cube
+   */
+  intensity?: number
+}
+
+/**
+ * draw solid color, gradient or texture behind all meshes, follows `scene.currentCamera`,
+ * priority is cube, equirect, gradient then color
+ */
+export const Background = (props: BackgroundProps) => {
+  const [scene, setScene] = useSceneContext()
+
+  createEffect(() => {
+    const { device } = scene
+    const equirect = props.equirect
+    if (props.cube) {
+      setScene('background', { backgroundType: 'cube', texture: props.cube })
+    } else if (equirect) {
+      let texture: GPUTexture
+      if ('createView' in equirect) {
+        texture = equirect
+      } else {
+        texture = 'data' in equirect ? createHDRTexture(device, equirect) : createImageTexture(device, equirect)
+        onCleanup(() => texture.destroy())
+      }
+      setScene('background', { backgroundType: 'equirect', texture })
+    } else if (props.gradient) {
+      setScene('background', { backgroundType: 'gradient', texture: undefined })
+    } else {
+      setScene('background', { backgroundType: 'color', texture: undefined })
+    }
+  })
+  createEffect(() => setScene('background', 'top', props.gradient?.[0] ?? props.color ?? [0, 0, 0]))
+  createEffect(() => setScene('background', 'bottom', props.gradient?.[1] ?? props.color ?? [0, 0, 0]))
+  createEffect(() => setScene('background', 'intensity', props.intensity ?? 1))
+
+  onCleanup(() => setScene('background', { backgroundType: undefined, texture: undefined }))
+
+  return null
+}
+
+const createImageTexture = (device: GPUDevice, image: ImageBitmap) => {
+  const texture = device.createTexture({
+    label: 'background texture',
+    size: [image.width, image.height],
+    format: 'rgba8unorm-srgb',
+    usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST | GPUTextureUsage.RENDER_ATTACHMENT
+  })
+  device.queue.copyExternalImageToTexture({ source: image }, { texture }, [image.width, image.height])
+  return texture
+}
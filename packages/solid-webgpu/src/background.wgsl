@@ -0,0 +1,72 @@
+struct BackgroundUniforms {
+    // inverse of projection * view without translation
+    inverse_projection_view: mat4x4<f32>,
+    // sRGB, top equals bottom for solid color
+    top: vec3<f32>,
+    bottom: vec3<f32>,
+    intensity: f32,
+    background_type: u32, // 0: color, 1: gradient, 2: equirect, 3: cube
+    // tone map textures with high dynamic range
+    hdr: u32,
+}
+
+struct VertexOutput {
+    @builtin(position) position: vec4<f32>,
+    @location(0) ndc: vec2<f32>,
+}
+
+@group(0) @binding(0)
+var<uniform> uniforms: BackgroundUniforms;
+
+@group(0) @binding(1)
+var background_texture: texture_2d<f32>;
+
+@group(0) @binding(2)
+var background_cube: texture_cube<f32>;
+
+@group(0) @binding(3)
+var background_sampler: sampler;
+
+const PI: f32 = 3.14159265359;
+
+// fullscreen triangle on far plane, drawn with depth compare less-equal
+@vertex
+fn vs_main(@builtin(vertex_index) index: u32) -> VertexOutput {
+    var output: VertexOutput;
+    let ndc = vec2<f32>(f32((index << 1u) & 2u), f32(index & 2u)) * 2.0 - 1.0;
+    output.position = vec4<f32>(ndc, 1.0, 1.0);
+    output.ndc = ndc;
+    return output;
+}
+
+fn unproject(ndc: vec2<f32>, z: f32) -> vec3<f32> {
+    let p = uniforms.inverse_projection_view * vec4<f32>(ndc, z, 1.0);
+    return p.xyz / p.w;
+}
+
+fn srgb_to_linear(color: vec3<f32>) -> vec3<f32> {
+    let low = color / 12.92;
+    let high = pow((color + 0.055) / 1.055, vec3<f32>(2.4));
+    return select(high, low, color <= vec3<f32>(0.04045));
+}
+
+@fragment
+fn fs_main(input: VertexOutput) -> @location(0) vec4<f32> {
+    let dir = normalize(unproject(input.ndc, 0.5) - unproject(input.ndc, 0.0));
+
+    var color: vec3<f32>;
+    if uniforms.background_type == 2u {
+        let uv = vec2<f32>(atan2(dir.z, dir.x) / (2.0 * PI) + 0.5, acos(clamp(dir.y, -1.0, 1.0)) / PI);
+        color = textureSampleLevel(background_texture, background_sampler, uv, 0.0).rgb * uniforms.intensity;
+    } else if uniforms.background_type == 3u {
+        color = textureSampleLevel(background_cube, background_sampler, dir, 0.0).rgb * uniforms.intensity;
+    } else {
+        color = srgb_to_linear(mix(uniforms.bottom, uniforms.top, dir.y * 0.5 + 0.5));
+    }
+
+    // tone_mapping & linear_to_output are injected according to scene settings
+    if uniforms.hdr != 0u {
+        color = tone_mapping(color);
+    }
+    return vec4<f32>(linear_to_output(color), 1.0);
+}
@@ -66,17 +66,23 @@ export const Camera = (props: CameraProps) => {
 
 export type PerspectiveCameraProps = CameraProps & {
   fov?: number
+  /**
+   * follows size of scene if not specified
+   */
   aspect?: number
   near?: number
   far?: number
 }
 export const PerspectiveCamera = (props: PerspectiveCameraProps) => {
   const [_local, others] = splitProps(props, ['ref', 'fov', 'aspect', 'near', 'far'])
+  const [scene] = useSceneContext()
 
   const local = mergeProps(
     {
       fov: 75 * DEG2RAD,
-      aspect: 1,
+      get aspect() {
+        return scene.width / scene.height
+      },
       near: 0.1,
       far: 1000
     },
@@ -106,6 +112,9 @@ export const PerspectiveCamera = (props: PerspectiveCameraProps) => {
 export type OrthographicCameraProps = CameraProps & {
   near?: number
   far?: number
+  /**
+   * `left` & `right` follow aspect of scene if not specified
+   */
   left?: number
   right?: number
   bottom?: number
@@ -113,13 +122,18 @@ export type OrthographicCameraProps = CameraProps & {
 }
 export const OrthographicCamera = (props: OrthographicCameraProps) => {
   const [_local, others] = splitProps(props, ['ref', 'near', 'far', 'left', 'right', 'bottom', 'top'])
+  const [scene] = useSceneContext()
 
   const local = mergeProps(
     {
       near: 0.1,
       far: 1000,
-      left: -1,
-      right: 1,
+      get left() {
+        return ((local.bottom - local.top) / 2) * (scene.width / scene.height)
+      },
+      get right() {
+        return ((local.top - local.bottom) / 2) * (scene.width / scene.height)
+      },
       bottom: -1,
       top: 1
     },
@@ -0,0 +1,64 @@
+import { CompressedTextureImage } from './types'
+
+const bytesPerTexel: Record<string, number> = {
+  r8unorm: 1,
+  rg8unorm: 2,
+  rgba8unorm: 4,
+  'rgba8unorm-srgb': 4,
+  bgra8unorm: 4,
+  'bgra8unorm-srgb': 4,
+  rgba16float: 8,
+  rgba32float: 16
+}
+
+/**
+ * byte size and texel dimension of a block, uncompressed formats use 1x1 blocks
+ */
+export const textureFormatBlock = (format: GPUTextureFormat) => {
+  const astc = format.match(/^astc-(\d+)x(\d+)-/)
+  if (astc) {
+    return { bytes: 16, width: Number(astc[1]), height: Number(astc[2]) }
+  }
+  if (/^(bc[1-7]|etc2|eac)-/.test(format)) {
+    const bytes = /^(bc1|bc4|etc2-rgb8|eac-r11)/.test(format) ? 8 : 16
+    return { bytes, width: 4, height: 4 }
+  }
+  const bytes = bytesPerTexel[format]
+  if (!bytes) {
+    throw new Error(`unknown block size of texture format ${format}`)
+  }
+  return { bytes, width: 1, height: 1 }
+}
+
+/**
+ * device features required to sample a texture format
+ */
+export const textureFormatFeature = (format: GPUTextureFormat): GPUFeatureName | undefined => {
+  if (format.startsWith('bc')) {
+    return 'texture-compression-bc'
+  }
+  if (format.startsWith('etc2') || format.startsWith('eac')) {
+    return 'texture-compression-etc2'
+  }
+  if (format.startsWith('astc')) {
+    return 'texture-compression-astc'
+  }
+}
+
+/**
+ * upload every level of `image`, level 0 size needs to be a multiple of block size
+ */
+export const writeCompressedTexture = (device: GPUDevice, texture: GPUTexture, image: CompressedTextureImage) => {
+  const block = textureFormatBlock(image.format)
+  image.levels.forEach((level, mipLevel) => {
+    // copies cover whole blocks, even if the level is smaller than a block
+    const blocksWide = Math.ceil(level.width / block.width)
+    const blocksHigh = Math.ceil(level.height / block.height)
+    device.queue.writeTexture(
+      { texture, mipLevel },
+      level.data,
+      { bytesPerRow: blocksWide * block.bytes, rowsPerImage: blocksHigh },
+      [blocksWide * block.width, blocksHigh * block.height]
+    )
+  })
+}
@@ -1,15 +1,36 @@
-import { createContext, useContext } from 'solid-js'
+import { Accessor, createContext, useContext } from 'solid-js'
 import { SetStoreFunction } from 'solid-js/store'
 import {
+  BackgroundContext,
   CameraContext,
+  EnvironmentContext,
   GeometryContext,
+  LightCulling,
+  LightsContext,
   MaterialContext,
   MeshContext,
   NodeContext,
   Object3DContext,
-  PunctualLightContext
+  OutputColorSpace,
+  PunctualLightContext,
+  ShadowContext,
+  ToneMapping
 } from './types'
 
+export type Frameloop = 'always' | 'demand' | 'never'
+export type FrameState = {
+  scene: SceneContext
+  /**
+   * timestamp of current frame in milliseconds
+   */
+  time: number
+  frame: number
+}
+/**
+ * `delta` is milliseconds elapsed since last frame
+ */
+export type FrameCallback = (state: FrameState, delta: number) => void
+
 export type SceneContext = {
   nodes: Record<string, NodeContext & Record<string, unknown>>
 
@@ -18,10 +39,30 @@ export type SceneContext = {
   format: GPUTextureFormat
   autoClear: boolean
   samples: number
+  frameloop: Frameloop
+  clearColor: GPUColorDict
+  alphaMode: GPUCanvasAlphaMode
+  toneMapping: ToneMapping
+  outputColorSpace: OutputColorSpace
+  lightCulling: LightCulling
+
+  /**
+   * request a new frame, only needed for changes the scene can not track
+   */
+  invalidate: () => void
+  /**
+   * run frame callbacks and render immediately regardless of `frameloop`
+   */
+  advance: (time?: number) => void
+  addFrameCallback: (callback: FrameCallback, priority: number) => () => void
 
   device: GPUDevice
-  canvas?: HTMLCanvasElement
+  canvas?: HTMLCanvasElement | OffscreenCanvas
   context?: GPUCanvasContext
+  /**
+   * user supplied texture when rendering through `RenderTarget`
+   */
+  target?: GPUTexture
 
   msaaTexture?: GPUTexture
   msaaTextureView?: GPUTextureView
@@ -32,6 +73,11 @@ export type SceneContext = {
   renderOrder: string[]
   lightList: string[]
   currentCamera?: string
+
+  shadow: ShadowContext
+  lights: LightsContext
+  environment: EnvironmentContext
+  background: BackgroundContext
 }
 
 // mesh: Record<string, MeshContext>
@@ -69,3 +115,7 @@ export const useGeometryContext = () => useContext(_GeometryContext)!
 export const _MaterialContext = createContext<[MaterialContext, SetStoreFunction<MaterialContext>]>()
 export const MaterialContextProvider = _MaterialContext.Provider
 export const useMaterialContext = () => useContext(_MaterialContext)!
+
+export const _WebGPUContext = createContext<Accessor<GPUDevice>>()
+export const WebGPUContextProvider = _WebGPUContext.Provider
+export const useWebGPUContext = () => useContext(_WebGPUContext)
@@ -0,0 +1,119 @@
+import { Accessor, createEffect, createSignal, onCleanup, ParentProps, Show } from 'solid-js'
+import { useWebGPUContext, WebGPUContextProvider } from './context'
+import { MaybeAccessor } from './types'
+import { access } from './utils'
+
+export type DeviceOptions = {
+  powerPreference?: GPUPowerPreference
+  forceFallbackAdapter?: boolean
+  requiredFeatures?: GPUFeatureName[]
+  requiredLimits?: Record<string, GPUSize64>
+  label?: string
+}
+
+export const requestDevice = async (options?: DeviceOptions) => {
+  if (typeof navigator === 'undefined' || !navigator.gpu) {
+    throw new Error('WebGPU is not supported in current environment')
+  }
+  const adapter = await navigator.gpu.requestAdapter({
+    powerPreference: options?.powerPreference,
+    forceFallbackAdapter: options?.forceFallbackAdapter
+  })
+  if (!adapter) {
+    throw new Error('no appropriate GPUAdapter found')
+  }
+  return adapter.requestDevice({
+    label: options?.label,
+    requiredFeatures: options?.requiredFeatures,
+    requiredLimits: options?.requiredLimits
+  })
+}
+
+export type CreateDeviceOptions = DeviceOptions & {
+  /**
+   * use given device instead of requesting one
+   */
+  device?: GPUDevice
+  onLost?: (info: GPUDeviceLostInfo) => void
+}
+
+/**
+ * acquire a device, a lost device which is not injected will be requested again,
+ * every node recreate its gpu resources once `scene.device` changed
+ */
+export const createDevice = (options?: MaybeAccessor<CreateDeviceOptions>) => {
+  const [device, setDevice] = createSignal<GPUDevice>()
+
+  createEffect(() => {
+    const opts = access(options) ?? {}
+    let disposed = false
+
+    if (opts.device) {
+      const injected = opts.device
+      setDevice(injected)
+      injected.lost.then(info => !disposed && opts.onLost?.(info))
+      onCleanup(() => (disposed = true))
+      return
+    }
+
+    let current: GPUDevice | undefined
+    const acquire = () =>
+      requestDevice(opts)
+        .then(d => {
+          if (disposed) {
+            d.destroy()
+            return
+          }
+          current = d
+          setDevice(d)
+          d.lost.then(info => {
+            if (disposed) {
+              return
+            }
+            opts.onLost?.(info)
+            if (info.reason !== 'destroyed') {
+              console.warn(`device lost: ${info.message}, requesting a new one`)
+              acquire()
+            }
+          })
+        })
+        .catch(e => console.error(e))
+    acquire()
+
+    onCleanup(() => {
+      disposed = true
+      current?.destroy()
+    })
+  })
+
+  return device
+}
+
+export type WebGPUProviderProps = ParentProps & CreateDeviceOptions
+
+/**
+ * share one device with every `Canvas` / `RenderTarget` inside,
+ * children are rendered once the device is ready
+ */
+export const WebGPUProvider = (props: WebGPUProviderProps) => {
+  const device = createDevice(props)
+
+  return <Show when={device()}>{d => <WebGPUContextProvider value={d}>{props.children}</WebGPUContextProvider>}</Show>
+}
+
+export type SceneDeviceProps = {
+  device?: GPUDevice
+  deviceOptions?: DeviceOptions
+  onDeviceLost?: (info: GPUDeviceLostInfo) => void
+}
+
+/**
+ * device of `Canvas` / `RenderTarget`: `device` prop, then `WebGPUProvider`, then a requested one
+ */
+export const useSceneDevice = (props: SceneDeviceProps): Accessor<GPUDevice | undefined> => {
+  const provided = useWebGPUContext()
+  if (provided) {
+    return () => props.device ?? provided()
+  }
+  return createDevice(() => ({ ...props.deviceOptions, device: props.device, onLost: props.onDeviceLost }))
+}
@@ -0,0 +1,126 @@
+import { createEffect, createResource, onCleanup } from 'solid-js'
+import { SetStoreFunction } from 'solid-js/store'
+import { SceneContext, useSceneContext } from './context'
+import { HDRImage, loadHDR } from './hdr'
+import { createHDRTexture, createIBL, SPECULAR_MIP_COUNT } from './ibl'
+
+type CubeFace = ImageBitmap | ImageData | HTMLCanvasElement | OffscreenCanvas
+
+export type EnvironmentProps = {
+  /**
+   * url of an equirectangular Radiance HDR (.hdr) image
+   */
+  src?: string
+  hdr?: HDRImage
+  /**
+   * faces in order +X, -X, +Y, -Y, +Z, -Z, treated as sRGB
+   */
+  cube?: [CubeFace, CubeFace, CubeFace, CubeFace, CubeFace, CubeFace]
+  intensity?: number
+  /**
+   * also draw environment behind the scene
+   */
+  background?: boolean
+  /**
+   * face size of environment cube
+   */
+  size?: number
+}
+
+/**
+ * image based lighting for `PBRMaterial`, replaces constant ambient term
+ */
+export const Environment = (props: EnvironmentProps) => {
+  const [scene, setScene] = useSceneContext()
+  const [hdr] = createResource(() => props.src, loadHDR)
+
+  createEffect(() => {
+    const { device } = scene
+    const image = props.hdr ?? hdr()
+    const cube = props.cube
+    const size = props.size ?? 512
+
+    let source: GPUTexture
+    if (image) {
+      source = createHDRTexture(device, image)
+    } else if (cube) {
+      const { width, height } = cube[0]
+      source = device.createTexture({
+        label: 'environment source',
+        size: [width, height, 6],
+        format: 'rgba8unorm-srgb',
+        usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST | GPUTextureUsage.RENDER_ATTACHMENT
+      })
+      cube.forEach((face, i) =>
+        device.queue.copyExternalImageToTexture({ source: face }, { texture: source, origin: [0, 0, i] }, [
+          width,
+          height
+        ])
+      )
+    } else {
+      return
+    }
+
+    const textures = createIBL(device, source, image ? 'equirect' : 'cube', size)
+    source.destroy()
+    setScene('environment', textures)
+
+    onCleanup(() => {
+      setScene('environment', { cube: undefined, irradiance: undefined, specular: undefined, brdfLut: undefined })
+      Object.values(textures).forEach(v => v.destroy())
+    })
+  })
+
+  createEffect(() => setScene('environment', 'intensity', props.intensity ?? 1))
+  createEffect(() => setScene('environment', 'background', props.background ?? false))
+  onCleanup(() => setScene('environment', { intensity: 1, background: false }))
+
+  return null
+}
+
+/**
+ * environment buffer & placeholder textures of scene, bound by materials even without `Environment`
+ */
+export const createEnvironment = (scene: SceneContext, setScene: SetStoreFunction<SceneContext>) => {
+  createEffect(() => {
+    const { device } = scene
+    const buffer = device.createBuffer({
+      label: 'environment buffer',
+      size: 16,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST
+    })
+    const placeholderCube = device.createTexture({
+      label: 'environment placeholder cube',
+      size: [1, 1, 6],
+      format: 'rgba16float',
+      usage: GPUTextureUsage.TEXTURE_BINDING
+    })
+    const placeholderLut = device.createTexture({
+      label: 'environment placeholder lut',
+      size: [1, 1],
+      format: 'rgba16float',
+      usage: GPUTextureUsage.TEXTURE_BINDING
+    })
+    setScene('environment', { buffer, placeholderCube, placeholderLut })
+
+    onCleanup(() => {
+      buffer.destroy()
+      placeholderCube.destroy()
+      placeholderLut.destroy()
+    })
+  })
+
+  createEffect(() => {
+    const { device } = scene
+    const { buffer, intensity, irradiance } = scene.environment
+    if (!buffer) {
+      return
+    }
+    const data = new ArrayBuffer(16)
+    new Float32Array(data).set([intensity, 0, SPECULAR_MIP_COUNT - 1])
+    new Uint32Array(data)[1] = irradiance ? 1 : 0
+    device.queue.writeBuffer(buffer, 0, data)
+    // bind group stays the same, request frame manually
+    scene.invalidate()
+  })
+}
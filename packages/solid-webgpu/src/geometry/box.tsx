@@ -0,0 +1,74 @@
+import { createMemo } from 'solid-js'
+import { createPrimitiveBuilder, PrimitiveGeometry, PrimitiveProps } from './primitive'
+
+export type BoxProps = PrimitiveProps & {
+  width?: number
+  height?: number
+  depth?: number
+  widthSegments?: number
+  heightSegments?: number
+  depthSegments?: number
+}
+
+/**
+ * six grids with their own vertices, so every face keeps a flat normal and full uv range
+ */
+const buildBox = (width = 2, height = 2, depth = 2, widthSegments = 1, heightSegments = 1, depthSegments = 1) => {
+  const builder = createPrimitiveBuilder()
+
+  // u & v axis with direction, w axis of the normal
+  const face = (
+    u: number,
+    v: number,
+    w: number,
+    uDir: number,
+    vDir: number,
+    sizeU: number,
+    sizeV: number,
+    sizeW: number,
+    gridU: number,
+    gridV: number
+  ) => {
+    const start = builder.vertexCount
+    for (let iy = 0; iy <= gridV; iy++) {
+      for (let ix = 0; ix <= gridU; ix++) {
+        const position = [0, 0, 0]
+        position[u] = (ix / gridU - 0.5) * sizeU * uDir
+        position[v] = (iy / gridV - 0.5) * sizeV * vDir
+        position[w] = sizeW / 2
+        const normal = [0, 0, 0]
+        normal[w] = Math.sign(sizeW)
+        builder.vertex(position, normal, [ix / gridU, iy / gridV])
+      }
+    }
+    const row = gridU + 1
+    for (let iy = 0; iy < gridV; iy++) {
+      for (let ix = 0; ix < gridU; ix++) {
+        builder.quad(
+          start + ix + row * iy,
+          start + ix + row * (iy + 1),
+          start + ix + 1 + row * (iy + 1),
+          start + ix + 1 + row * iy
+        )
+      }
+    }
+  }
+
+  face(2, 1, 0, -1, -1, depth, height, width, depthSegments, heightSegments) // +x
+  face(2, 1, 0, 1, -1, depth, height, -width, depthSegments, heightSegments) // -x
+  face(0, 2, 1, 1, 1, width, depth, height, widthSegments, depthSegments) // +y
+  face(0, 2, 1, 1, -1, width, depth, -height, widthSegments, depthSegments) // -y
+  face(0, 1, 2, 1, -1, width, height, depth, widthSegments, heightSegments) // +z
+  face(0, 1, 2, -1, -1, width, height, -depth, widthSegments, heightSegments) // -z
+  return builder.build()
+}
+
+/**
+ * axis aligned box centered at the origin, defaults to 2 x 2 x 2 like `Plane`
+ */
+export const Box = (props: BoxProps) => {
+  const data = createMemo(() =>
+    buildBox(props.width, props.height, props.depth, props.widthSegments, props.heightSegments, props.depthSegments)
+  )
+  return <PrimitiveGeometry label={props.label} ref={props.ref} data={data()} />
+}
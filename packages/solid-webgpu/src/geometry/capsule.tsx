@@ -0,0 +1,59 @@
+import { createMemo } from 'solid-js'
+import { createPrimitiveBuilder, PrimitiveGeometry, PrimitiveProps } from './primitive'
+
+export type CapsuleProps = PrimitiveProps & {
+  radius?: number
+  /**
+   * length of the cylindrical middle, the total height adds both caps
+   */
+  length?: number
+  capSegments?: number
+  radialSegments?: number
+}
+
+const buildCapsule = (radius = 0.5, length = 1, capSegments = 8, radialSegments = 32) => {
+  const builder = createPrimitiveBuilder()
+
+  // latitude & height of each ring from the top pole down, the middle is spanned between the cap equators
+  const rings: { angle: number; y: number }[] = []
+  for (let i = 0; i <= capSegments; i++) {
+    rings.push({ angle: Math.PI / 2 - (i / capSegments) * (Math.PI / 2), y: length / 2 })
+  }
+  for (let i = 0; i <= capSegments; i++) {
+    rings.push({ angle: -(i / capSegments) * (Math.PI / 2), y: -length / 2 })
+  }
+  // v follows the arc length of the profile
+  const profile = rings.map(({ angle, y }) => y + radius * Math.sin(angle))
+  const total = Math.PI * radius + length
+  let distance = 0
+
+  const grid = rings.map(({ angle, y }, r) => {
+    if (r > 0) {
+      const da = rings[r - 1].angle - angle
+      distance += da > 0 ? da * radius : profile[r - 1] - profile[r]
+    }
+    const v = distance / total
+    const ringRadius = radius * Math.cos(angle)
+    return Array.from({ length: radialSegments + 1 }, (_, ix) => {
+      const u = ix / radialSegments
+      const sin = Math.sin(u * Math.PI * 2)
+      const cos = Math.cos(u * Math.PI * 2)
+      const normal = [Math.cos(angle) * sin, Math.sin(angle), Math.cos(angle) * cos]
+      return builder.vertex([ringRadius * sin, y + radius * Math.sin(angle), ringRadius * cos], normal, [u, v])
+    })
+  })
+  for (let r = 0; r < grid.length - 1; r++) {
+    for (let ix = 0; ix < radialSegments; ix++) {
+      builder.quad(grid[r][ix], grid[r + 1][ix], grid[r + 1][ix + 1], grid[r][ix + 1])
+    }
+  }
+  return builder.build()
+}
+
+/**
+ * cylinder with hemispherical caps along the y axis, centered at the origin
+ */
+export const Capsule = (props: CapsuleProps) => {
+  const data = createMemo(() => buildCapsule(props.radius, props.length, props.capSegments, props.radialSegments))
+  return <PrimitiveGeometry label={props.label} ref={props.ref} data={data()} />
+}
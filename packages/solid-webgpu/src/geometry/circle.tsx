@@ -0,0 +1,74 @@
+import { createMemo } from 'solid-js'
+import { createPrimitiveBuilder, PrimitiveGeometry, PrimitiveProps } from './primitive'
+
+export type CircleProps = PrimitiveProps & {
+  radius?: number
+  segments?: number
+}
+
+export type RingProps = PrimitiveProps & {
+  innerRadius?: number
+  outerRadius?: number
+  thetaSegments?: number
+  /**
+   * segments between inner and outer radius
+   */
+  phiSegments?: number
+}
+
+/**
+ * uv of a point in the xy plane inside the square around a circle of `radius`
+ */
+const planarUV = (x: number, y: number, radius: number) => [(x / radius + 1) / 2, (1 - y / radius) / 2]
+
+const buildCircle = (radius = 1, segments = 32) => {
+  const builder = createPrimitiveBuilder()
+  const center = builder.vertex([0, 0, 0], [0, 0, 1], [0.5, 0.5])
+  for (let s = 0; s <= segments; s++) {
+    const theta = (s / segments) * Math.PI * 2
+    const x = radius * Math.cos(theta)
+    const y = radius * Math.sin(theta)
+    builder.vertex([x, y, 0], [0, 0, 1], planarUV(x, y, radius))
+  }
+  for (let s = 1; s <= segments; s++) {
+    builder.triangle(s, s + 1, center)
+  }
+  return builder.build()
+}
+
+const buildRing = (innerRadius = 0.5, outerRadius = 1, thetaSegments = 32, phiSegments = 1) => {
+  const builder = createPrimitiveBuilder()
+  for (let j = 0; j <= phiSegments; j++) {
+    const radius = innerRadius + (j / phiSegments) * (outerRadius - innerRadius)
+    for (let i = 0; i <= thetaSegments; i++) {
+      const theta = (i / thetaSegments) * Math.PI * 2
+      const x = radius * Math.cos(theta)
+      const y = radius * Math.sin(theta)
+      builder.vertex([x, y, 0], [0, 0, 1], planarUV(x, y, outerRadius))
+    }
+  }
+  const row = thetaSegments + 1
+  for (let j = 0; j < phiSegments; j++) {
+    for (let i = 0; i < thetaSegments; i++) {
+      const s = i + j * row
+      builder.quad(s, s + row, s + row + 1, s + 1)
+    }
+  }
+  return builder.build()
+}
+
+/**
+ * disc in the xy plane facing +z
+ */
+export const Circle = (props: CircleProps) => {
+  const data = createMemo(() => buildCircle(props.radius, props.segments))
+  return <PrimitiveGeometry label={props.label} ref={props.ref} data={data()} />
+}
+
+/**
+ * flat annulus in the xy plane facing +z
+ */
+export const Ring = (props: RingProps) => {
+  const data = createMemo(() => buildRing(props.innerRadius, props.outerRadius, props.thetaSegments, props.phiSegments))
+  return <PrimitiveGeometry label={props.label} ref={props.ref} data={data()} />
+}
@@ -0,0 +1,115 @@
+import { createMemo } from 'solid-js'
+import { createPrimitiveBuilder, PrimitiveGeometry, PrimitiveProps } from './primitive'
+
+export type CylinderProps = PrimitiveProps & {
+  radiusTop?: number
+  radiusBottom?: number
+  height?: number
+  radialSegments?: number
+  heightSegments?: number
+  /**
+   * leave out the caps
+   */
+  openEnded?: boolean
+}
+
+export type ConeProps = PrimitiveProps & {
+  radius?: number
+  height?: number
+  radialSegments?: number
+  heightSegments?: number
+  openEnded?: boolean
+}
+
+const buildCylinder = (
+  radiusTop = 1,
+  radiusBottom = 1,
+  height = 2,
+  radialSegments = 32,
+  heightSegments = 1,
+  openEnded = false
+) => {
+  const builder = createPrimitiveBuilder()
+  const halfHeight = height / 2
+  const slope = (radiusBottom - radiusTop) / height
+
+  const grid: number[][] = []
+  for (let iy = 0; iy <= heightSegments; iy++) {
+    const v = iy / heightSegments
+    const radius = v * (radiusBottom - radiusTop) + radiusTop
+    const row: number[] = []
+    for (let ix = 0; ix <= radialSegments; ix++) {
+      const u = ix / radialSegments
+      const sin = Math.sin(u * Math.PI * 2)
+      const cos = Math.cos(u * Math.PI * 2)
+      const length = Math.hypot(1, slope)
+      row.push(
+        builder.vertex(
+          [radius * sin, halfHeight - v * height, radius * cos],
+          [sin / length, slope / length, cos / length],
+          [u, v]
+        )
+      )
+    }
+    grid.push(row)
+  }
+  for (let iy = 0; iy < heightSegments; iy++) {
+    for (let ix = 0; ix < radialSegments; ix++) {
+      builder.quad(grid[iy][ix], grid[iy + 1][ix], grid[iy + 1][ix + 1], grid[iy][ix + 1])
+    }
+  }
+
+  const cap = (top: boolean) => {
+    const radius = top ? radiusTop : radiusBottom
+    if (openEnded || radius <= 0) {
+      return
+    }
+    const sign = top ? 1 : -1
+    const y = halfHeight * sign
+    // one center vertex per segment keeps uv derivatives continuous
+    const centers = Array.from({ length: radialSegments }, () => builder.vertex([0, y, 0], [0, sign, 0], [0.5, 0.5]))
+    const ring = Array.from({ length: radialSegments + 1 }, (_, ix) => {
+      const theta = (ix / radialSegments) * Math.PI * 2
+      const sin = Math.sin(theta)
+      const cos = Math.cos(theta)
+      return builder.vertex([radius * sin, y, radius * cos], [0, sign, 0], [cos * 0.5 + 0.5, 0.5 - sin * 0.5 * sign])
+    })
+    for (let ix = 0; ix < radialSegments; ix++) {
+      if (top) {
+        builder.triangle(ring[ix], ring[ix + 1], centers[ix])
+      } else {
+        builder.triangle(ring[ix + 1], ring[ix], centers[ix])
+      }
+    }
+  }
+  cap(true)
+  cap(false)
+  return builder.build()
+}
+
+/**
+ * along the y axis centered at the origin, different radii make a truncated cone
+ */
+export const Cylinder = (props: CylinderProps) => {
+  const data = createMemo(() =>
+    buildCylinder(
+      props.radiusTop,
+      props.radiusBottom,
+      props.height,
+      props.radialSegments,
+      props.heightSegments,
+      props.openEnded
+    )
+  )
+  return <PrimitiveGeometry label={props.label} ref={props.ref} data={data()} />
+}
+
+/**
+ * cylinder with its tip at the top
+ */
+export const Cone = (props: ConeProps) => {
+  const data = createMemo(() =>
+    buildCylinder(0, props.radius, props.height, props.radialSegments, props.heightSegments, props.openEnded)
+  )
+  return <PrimitiveGeometry label={props.label} ref={props.ref} data={data()} />
+}
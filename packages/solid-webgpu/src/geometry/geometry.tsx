@@ -1,4 +1,4 @@
-import { batch, createEffect, createSignal, JSX, onCleanup, untrack } from 'solid-js'
+import { createEffect, JSX, on, onCleanup, untrack } from 'solid-js'
 import { createStore } from 'solid-js/store'
 import { GeometryContextProvider, useGeometryContext, useMeshContext, useSceneContext } from '../context'
 import { createNodeContext } from '../object3d'
@@ -7,20 +7,35 @@ import {
   GeometryExtra,
   IndexBufferContext,
   IndexBufferExtra,
+  MorphTarget,
   NodeProps,
   NodeRef,
   TypedArray,
+  VertexAttribute,
   VertexBufferContext,
   VertexBufferExtra
 } from '../types'
-import { createBuffer } from '../utils'
+import { createBuffer, createBufferValue, syncBufferValue, vertexFormatInfo } from '../utils'
 
 export type GeometryRef = NodeRef<GeometryContext>
 export type GeometryProps = NodeProps<GeometryContext> & {
   vertexBuffers: JSX.Element
   indexBuffer: JSX.Element
+  /**
+   * blend shapes weighted by `morphWeights` of the mesh
+   */
+  morphTargets?: MorphTarget[]
 }
 
+/**
+ * struct MorphTargets header: vertex_count, target_count, padding
+ */
+const MORPH_HEADER_LENGTH = 4
+/**
+ * struct MorphDelta: position, normal & tangent as vec3 with padding
+ */
+const MORPH_DELTA_LENGTH = 12
+
 export const Geometry = (props: GeometryProps) => {
   const {
     store: _s,
@@ -28,6 +43,7 @@ export const Geometry = (props: GeometryProps) => {
     Provider
   } = createNodeContext(['Geometry'], props, {
     vertexBuffers: [],
+    morphTargets: [],
     topology: 'triangle-list',
     instanceCount: 1,
     drawRange: { start: 0, count: Infinity }
@@ -44,6 +60,41 @@ export const Geometry = (props: GeometryProps) => {
 
   setMesh('geometry', id)
 
+  createEffect(() => setStore('morphTargets', props.morphTargets ?? []))
+
+  /**
+   * upload morph target deltas, interleaved per target and vertex
+   */
+  createEffect(() => {
+    const { device } = scene
+    const targets = store.morphTargets
+    if (!targets.length) {
+      setStore('morphBuffer', undefined)
+      return
+    }
+    const first = targets[0]
+    const vertexCount = (first.POSITION ?? first.NORMAL ?? first.TANGENT ?? []).length / 3
+    const data = new Float32Array(MORPH_HEADER_LENGTH + Math.max(targets.length * vertexCount, 1) * MORPH_DELTA_LENGTH)
+    const view = new DataView(data.buffer)
+    view.setUint32(0, vertexCount, true)
+    view.setUint32(4, targets.length, true)
+    targets.forEach((target, t) => {
+      const attributes = [target.POSITION, target.NORMAL, target.TANGENT]
+      for (let v = 0; v < vertexCount; v++) {
+        const offset = MORPH_HEADER_LENGTH + (t * vertexCount + v) * MORPH_DELTA_LENGTH
+        attributes.forEach((attribute, a) => {
+          if (attribute) {
+            data.set(attribute.subarray(v * 3, v * 3 + 3), offset + a * 4)
+          }
+        })
+      }
+    })
+    const buffer = createBuffer({ device, data, usage: GPUBufferUsage.STORAGE, label: `morph targets ${id}` })
+    setStore('morphBuffer', buffer)
+
+    onCleanup(() => buffer.destroy())
+  })
+
   return (
     <Provider>
       <GeometryContextProvider value={[store, setStore]}>
@@ -56,22 +107,56 @@ export const Geometry = (props: GeometryProps) => {
 
 export type VertexBufferRef = NodeRef<VertexBufferContext>
 export type VertexBufferProps = NodeProps<VertexBufferContext> & {
+  /**
+   * name of the single attribute of `layout`
+   */
   attribute?: {
     name: string
-    type: string
+    type?: string
   }
-  layout: GPUVertexBufferLayout
+  /**
+   * named attributes of a possibly interleaved buffer, `layout` is derived from them when omitted
+   */
+  attributes?: VertexAttribute[]
+  /**
+   * bytes per vertex, defaults to the packed size of `attributes`
+   */
+  arrayStride?: number
+  stepMode?: GPUVertexStepMode
+  layout?: GPUVertexBufferLayout
   value: TypedArray
 }
+
+const attributesOf = (props: VertexBufferProps): Required<VertexAttribute>[] => {
+  if (props.attributes) {
+    return props.attributes.map(v => ({ ...v, type: v.type ?? vertexFormatInfo(v.format).type }))
+  }
+  const first = props.layout && Array.from(props.layout.attributes)[0]
+  if (!props.attribute || !first) {
+    return []
+  }
+  const { format, offset } = first
+  return [{ name: props.attribute.name, type: props.attribute.type ?? vertexFormatInfo(format).type, format, offset }]
+}
+
+const layoutOf = (props: VertexBufferProps): GPUVertexBufferLayout =>
+  props.layout ?? {
+    arrayStride:
+      props.arrayStride ?? (props.attributes ?? []).reduce((sum, v) => sum + vertexFormatInfo(v.format).byteSize, 0),
+    stepMode: props.stepMode,
+    attributes: (props.attributes ?? []).map((v, i) => ({ format: v.format, offset: v.offset, shaderLocation: i }))
+  }
+
+/**
+ * vertex data of a geometry, `attribute` or `attributes` bind it to shader inputs by name
+ */
 export const VertexBuffer = (props: VertexBufferProps) => {
-  const val = createSignal(
-    untrack(() => props.value),
-    { equals: false }
-  )
+  const val = createBufferValue(untrack(() => props.value))
   const { store: _s, setStore: _setS } = createNodeContext(['VertexBuffer'], props, {
-    layout: untrack(() => props.layout),
-    value: val[0],
-    setValue: val[1]
+    attributes: untrack(() => attributesOf(props)),
+    layout: untrack(() => layoutOf(props)),
+    value: val.value,
+    setValue: val.setValue
   } satisfies VertexBufferExtra)
 
   const [scene] = useSceneContext()
@@ -79,20 +164,26 @@ export const VertexBuffer = (props: VertexBufferProps) => {
 
   const [store, setStore] = createStore(scene.nodes[id] as VertexBufferContext)
 
-  createEffect(() => setStore('attribute', props.attribute))
-  createEffect(() => setStore('layout', props.layout))
+  createEffect(() => setStore('attributes', attributesOf(props)))
+  createEffect(() => setStore('layout', layoutOf(props)))
+  createEffect(
+    on(
+      () => props.value,
+      v => store.setValue(v),
+      { defer: true }
+    )
+  )
 
-  createEffect(() => {
-    const { device } = scene
-    const data = props.value
-    const buffer = createBuffer({ device, data, usage: GPUBufferUsage.VERTEX })
-    batch(() => {
-      store.setValue(data)
-      setStore('buffer', buffer)
+  createEffect(() =>
+    syncBufferValue({
+      device: scene.device,
+      value: val,
+      usage: GPUBufferUsage.VERTEX,
+      label: `vertex buffer ${id}`,
+      setBuffer: v => setStore('buffer', v),
+      invalidate: scene.invalidate
     })
-
-    onCleanup(() => buffer.destroy())
-  })
+  )
 
   props.ref?.(store)
 
@@ -107,31 +198,34 @@ export type IndexBufferProps = NodeProps<IndexBufferContext> & {
   value: TypedArray
 }
 export const IndexBuffer = (props: IndexBufferProps) => {
-  const val = createSignal(
-    untrack(() => props.value),
-    { equals: false }
-  )
+  const val = createBufferValue(untrack(() => props.value))
   const { store: _s, setStore: _setS } = createNodeContext(['IndexBuffer'], props, {
-    value: val[0],
-    setValue: val[1]
+    value: val.value,
+    setValue: val.setValue
   } satisfies IndexBufferExtra)
   const [scene] = useSceneContext()
   const id = _s.id
 
   const [store, setStore] = createStore(scene.nodes[id] as IndexBufferContext)
 
-  createEffect(() => {
-    const { device } = scene
-    const data = props.value
-    const buffer = createBuffer({ device, data, usage: GPUBufferUsage.INDEX })
+  createEffect(
+    on(
+      () => props.value,
+      v => store.setValue(v),
+      { defer: true }
+    )
+  )
 
-    batch(() => {
-      store.setValue(data)
-      setStore('buffer', buffer)
+  createEffect(() =>
+    syncBufferValue({
+      device: scene.device,
+      value: val,
+      usage: GPUBufferUsage.INDEX,
+      label: `index buffer ${id}`,
+      setBuffer: v => setStore('buffer', v),
+      invalidate: scene.invalidate
     })
-
-    onCleanup(() => buffer.destroy())
-  })
+  )
 
   props.ref?.(store)
   const [_, setG] = useGeometryContext()
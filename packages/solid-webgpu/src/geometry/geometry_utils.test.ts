@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import {
+  computeTangents,
+  GeometryData,
+  mergeGeometries,
+  readVertexAttribute,
+  toNonIndexed,
+  weldVertices
+} from './geometry_utils'
+
+/**
+ * unit quad facing +z, uv origin at the top left
+ */
+const quad = (uvs = [0, 0, 1, 0, 1, 1, 0, 1]): GeometryData => ({
+  attributes: {
+    POSITION: { array: new Float32Array([-1, 1, 0, 1, 1, 0, 1, -1, 0, -1, -1, 0]), itemSize: 3 },
+    NORMAL: { array: new Float32Array([0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1]), itemSize: 3 },
+    TEXCOORD_0: { array: new Float32Array(uvs), itemSize: 2 }
+  },
+  indices: new Uint16Array([0, 3, 2, 0, 2, 1])
+})
+
+const triangles = (data: GeometryData) => {
+  const { array } = data.attributes.POSITION
+  const indices = data.indices ?? Array.from({ length: array.length / 3 }, (_, i) => i)
+  return Array.from(indices, i => [...array.subarray(i * 3, i * 3 + 3)])
+}
+
+test('computeTangents points along +u with positive w for upright uvs', () => {
+  const { array, itemSize } = computeTangents(quad()).attributes.TANGENT
+  assert.equal(itemSize, 4)
+  assert.deepEqual([...array], [1, 0, 0, 1, 1, 0, 0, 1, 1, 0, 0, 1, 1, 0, 0, 1])
+})
+
+test('computeTangents flips w for mirrored uvs', () => {
+  const { array } = computeTangents(quad([1, 0, 0, 0, 0, 1, 1, 1])).attributes.TANGENT
+  assert.deepEqual([...array], [-1, 0, 0, -1, -1, 0, 0, -1, -1, 0, 0, -1, -1, 0, 0, -1])
+  assert.throws(() => computeTangents({ attributes: {} }), /needs POSITION, NORMAL and TEXCOORD_0/)
+})
+
+test('toNonIndexed gives every triangle its own vertices', () => {
+  const data = toNonIndexed(quad())
+  assert.equal(data.indices, undefined)
+  assert.equal(data.attributes.TEXCOORD_0.array.length, 12)
+  assert.deepEqual(triangles(data), triangles(quad()))
+})
+
+test('weldVertices merges equal vertices back into an indexed geometry', () => {
+  const welded = weldVertices(toNonIndexed(quad()))
+  assert.equal(welded.attributes.POSITION.array.length, 12)
+  assert.deepEqual([...welded.indices!], [0, 1, 2, 0, 2, 3])
+  assert.deepEqual(triangles(welded), triangles(quad()))
+})
+
+test('mergeGeometries offsets indices of later geometries', () => {
+  const merged = mergeGeometries([toNonIndexed(quad()), quad()])
+  assert.equal(merged.attributes.POSITION.array.length, 30)
+  assert.deepEqual([...merged.indices!], [0, 1, 2, 3, 4, 5, 6, 9, 8, 6, 8, 7])
+  assert.deepEqual(triangles(merged), [...triangles(quad()), ...triangles(quad())])
+  assert.throws(
+    () => mergeGeometries([quad(), { attributes: { POSITION: quad().attributes.POSITION } }]),
+    /needs the same attributes/
+  )
+})
+
+test('readVertexAttribute splits an interleaved buffer', () => {
+  // float32x3 position followed by unorm8x4 color, 16 bytes per vertex
+  const buffer = new ArrayBuffer(48)
+  const floats = new Float32Array(buffer)
+  const bytes = new Uint8Array(buffer)
+  for (let v = 0; v < 3; v++) {
+    floats.set([v, v + 0.5, -v], v * 4)
+    bytes.set([v, 255, 0, 128], v * 16 + 12)
+  }
+
+  const position = readVertexAttribute(floats, 16, { format: 'float32x3', offset: 0 })
+  assert.equal(position.itemSize, 3)
+  assert.ok(position.array instanceof Float32Array)
+  assert.deepEqual([...position.array], [0, 0.5, -0, 1, 1.5, -1, 2, 2.5, -2])
+
+  const color = readVertexAttribute(floats, 16, { format: 'unorm8x4', offset: 12 })
+  assert.equal(color.itemSize, 4)
+  assert.ok(color.array instanceof Uint8Array)
+  assert.deepEqual([...color.array], [0, 255, 0, 128, 1, 255, 0, 128, 2, 255, 0, 128])
+})
@@ -0,0 +1,366 @@
+import { Vec3 } from 'math'
+import type { SceneContext } from '../context'
+import type {
+  GeometryContext,
+  IndexBufferContext,
+  TypedArray,
+  TypedArrayConstructor,
+  VertexAttribute,
+  VertexBufferContext
+} from '../types'
+import { vertexFormatInfo } from '../utils'
+
+export type GeometryAttribute = {
+  array: TypedArray
+  /**
+   * components per vertex, e.g. 3 for `float32x3`
+   */
+  itemSize: number
+}
+
+/**
+ * plain copy of vertex & index data, named by glTF attribute semantics like `POSITION` and `TEXCOORD_0`
+ */
+export type GeometryData = {
+  attributes: Record<string, GeometryAttribute>
+  /**
+   * triangle list indices, vertices are used in order without them
+   */
+  indices?: TypedArray
+}
+
+const typedArrays: Record<string, TypedArrayConstructor> = {
+  sint8: Int8Array,
+  uint8: Uint8Array,
+  snorm8: Int8Array,
+  unorm8: Uint8Array,
+  sint16: Int16Array,
+  uint16: Uint16Array,
+  snorm16: Int16Array,
+  unorm16: Uint16Array,
+  sint32: Int32Array,
+  uint32: Uint32Array,
+  float32: Float32Array
+}
+
+/**
+ * copy one attribute out of a possibly interleaved vertex buffer into a tightly packed array
+ */
+export const readVertexAttribute = (
+  data: TypedArray,
+  arrayStride: number,
+  attribute: Omit<VertexAttribute, 'name'>
+) => {
+  const ArrayType = typedArrays[attribute.format.match(/^[a-z]+\d+/)?.[0] ?? '']
+  if (!ArrayType) {
+    throw new Error(`vertex format ${attribute.format} can't be read`)
+  }
+  const { components, byteSize } = vertexFormatInfo(attribute.format)
+  const stride = arrayStride || byteSize
+  const src = new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+  const count =
+    src.byteLength >= attribute.offset + byteSize
+      ? Math.floor((src.byteLength - attribute.offset - byteSize) / stride) + 1
+      : 0
+  const dst = new Uint8Array(count * byteSize)
+  for (let i = 0; i < count; i++) {
+    const start = attribute.offset + i * stride
+    dst.set(src.subarray(start, start + byteSize), i * byteSize)
+  }
+  return { array: new ArrayType(dst.buffer), itemSize: components }
+}
+
+/**
+ * read `value` of the named attributes of a geometry, interleaved buffers are split per attribute
+ */
+export const geometryDataOf = (geometry: GeometryContext, nodes: SceneContext['nodes']): GeometryData => {
+  const attributes: Record<string, GeometryAttribute> = {}
+  for (const id of geometry.vertexBuffers) {
+    const vertexBuffer = nodes[id] as VertexBufferContext
+    for (const attribute of vertexBuffer.attributes) {
+      attributes[attribute.name] = readVertexAttribute(vertexBuffer.value(), vertexBuffer.layout.arrayStride, attribute)
+    }
+  }
+  const indices = geometry.indexBuffer ? (nodes[geometry.indexBuffer] as IndexBufferContext).value() : undefined
+  return { attributes, indices }
+}
+
+export const vertexCountOf = (data: GeometryData) => {
+  const position = data.attributes.POSITION ?? Object.values(data.attributes)[0]
+  return position ? position.array.length / position.itemSize : 0
+}
+
+/**
+ * indices of a triangle list, sequential for non-indexed data
+ */
+const indicesOf = (data: GeometryData): ArrayLike<number> =>
+  data.indices ?? Array.from({ length: vertexCountOf(data) }, (_, i) => i)
+
+const read = (attribute: GeometryAttribute, index: number) =>
+  Vec3.fromValues(
+    attribute.array[index * attribute.itemSize],
+    attribute.array[index * attribute.itemSize + 1],
+    attribute.array[index * attribute.itemSize + 2]
+  )
+
+const withAttribute = (data: GeometryData, name: string, attribute: GeometryAttribute): GeometryData => ({
+  ...data,
+  attributes: { ...data.attributes, [name]: attribute }
+})
+
+/**
+ * smooth `NORMAL` averaged over the triangles sharing a vertex, weighted by triangle area
+ */
+export const computeVertexNormals = (data: GeometryData) => {
+  const positions = data.attributes.POSITION
+  const indices = indicesOf(data)
+  const normals = new Float32Array(vertexCountOf(data) * 3)
+  const e1 = Vec3.create()
+  const e2 = Vec3.create()
+  const n = Vec3.create()
+  for (let i = 0; i < indices.length; i += 3) {
+    const [a, b, c] = [indices[i], indices[i + 1], indices[i + 2]]
+    const pa = read(positions, a)
+    Vec3.sub(e1, read(positions, b), pa)
+    Vec3.sub(e2, read(positions, c), pa)
+    // length of the cross product is twice the area
+    Vec3.cross(n, e1, e2)
+    for (const v of [a, b, c]) {
+      normals[v * 3] += n[0]
+      normals[v * 3 + 1] += n[1]
+      normals[v * 3 + 2] += n[2]
+    }
+  }
+  for (let v = 0; v < normals.length; v += 3) {
+    Vec3.normalize(n, read({ array: normals, itemSize: 3 }, v / 3))
+    normals.set(n, v)
+  }
+  return withAttribute(data, 'NORMAL', { array: normals, itemSize: 3 })
+}
+
+/**
+ * faceted `NORMAL` per triangle, vertices stop being shared
+ */
+export const computeFlatNormals = (data: GeometryData) => {
+  const flat = toNonIndexed(data)
+  const positions = flat.attributes.POSITION
+  const normals = new Float32Array(vertexCountOf(flat) * 3)
+  const e1 = Vec3.create()
+  const e2 = Vec3.create()
+  const n = Vec3.create()
+  for (let v = 0; v < normals.length / 3; v += 3) {
+    const pa = read(positions, v)
+    Vec3.sub(e1, read(positions, v + 1), pa)
+    Vec3.sub(e2, read(positions, v + 2), pa)
+    Vec3.normalize(n, Vec3.cross(n, e1, e2))
+    normals.set(n, v * 3)
+    normals.set(n, v * 3 + 3)
+    normals.set(n, v * 3 + 6)
+  }
+  return withAttribute(flat, 'NORMAL', { array: normals, itemSize: 3 })
+}
+
+/**
+ * `TANGENT` from `POSITION`, `NORMAL` and `TEXCOORD_0` the way MikkTSpace derives them:
+ * per triangle tangents are projected onto the vertex normal plane and weighted by the corner angle.
+ * vertices are never split, so results match MikkTSpace once uv seams and mirrored uvs have their own vertices.
+ * w is the bitangent sign of glTF `TANGENT`, the bitangent points up in the image
+ */
+export const computeTangents = (data: GeometryData) => {
+  const positions = data.attributes.POSITION
+  const normals = data.attributes.NORMAL
+  const uvs = data.attributes.TEXCOORD_0
+  if (!positions || !normals || !uvs) {
+    throw new Error('computeTangents needs POSITION, NORMAL and TEXCOORD_0 attributes')
+  }
+  const indices = indicesOf(data)
+  const count = vertexCountOf(data)
+  const tan = new Float32Array(count * 3)
+  const bitan = new Float32Array(count * 3)
+
+  const p = [Vec3.create(), Vec3.create(), Vec3.create()]
+  const e1 = Vec3.create()
+  const e2 = Vec3.create()
+  const t = Vec3.create()
+  const b = Vec3.create()
+  const n = Vec3.create()
+  const projected = Vec3.create()
+
+  for (let i = 0; i < indices.length; i += 3) {
+    const corners = [indices[i], indices[i + 1], indices[i + 2]]
+    corners.forEach((v, k) => p[k].copy(read(positions, v)))
+    const uv = corners.map(v => [uvs.array[v * uvs.itemSize], uvs.array[v * uvs.itemSize + 1]])
+    Vec3.sub(e1, p[1], p[0])
+    Vec3.sub(e2, p[2], p[0])
+    const du1 = uv[1][0] - uv[0][0]
+    const dv1 = uv[1][1] - uv[0][1]
+    const du2 = uv[2][0] - uv[0][0]
+    const dv2 = uv[2][1] - uv[0][1]
+    const det = du1 * dv2 - du2 * dv1
+    if (Math.abs(det) < 1e-12) {
+      continue
+    }
+    // tangent along +u, bitangent along -v as uv origin is the top left
+    Vec3.scale(t, Vec3.sub(t, Vec3.scale(t, e1, dv2), Vec3.scale(projected, e2, dv1)), 1 / det)
+    Vec3.scale(b, Vec3.sub(b, Vec3.scale(b, e1, du2), Vec3.scale(projected, e2, du1)), 1 / det)
+
+    corners.forEach((v, k) => {
+      const edgeA = Vec3.sub(Vec3.create(), p[(k + 1) % 3], p[k])
+      const edgeB = Vec3.sub(Vec3.create(), p[(k + 2) % 3], p[k])
+      const angle = Vec3.angle(edgeA, edgeB) || 0
+      n.copy(read(normals, v))
+      for (const [source, target] of [
+        [t, tan],
+        [b, bitan]
+      ] as const) {
+        Vec3.scaleAndAdd(projected, source, n, -Vec3.dot(n, source))
+        Vec3.normalize(projected, projected)
+        target[v * 3] += projected[0] * angle
+        target[v * 3 + 1] += projected[1] * angle
+        target[v * 3 + 2] += projected[2] * angle
+      }
+    })
+  }
+
+  const tangents = new Float32Array(count * 4)
+  for (let v = 0; v < count; v++) {
+    n.copy(read(normals, v))
+    t.copy(read({ array: tan, itemSize: 3 }, v))
+    Vec3.scaleAndAdd(t, t, n, -Vec3.dot(n, t))
+    if (Vec3.squaredLength(t) < 1e-20) {
+      // no uv gradient, e.g. at poles, any direction perpendicular to the normal works
+      if (Math.abs(n[0]) < 0.9) {
+        Vec3.set(t, 0, -n[2], n[1])
+      } else {
+        Vec3.set(t, n[2], 0, -n[0])
+      }
+    }
+    Vec3.normalize(t, t)
+    Vec3.cross(projected, n, t)
+    const w = Vec3.dot(projected, read({ array: bitan, itemSize: 3 }, v)) < 0 ? -1 : 1
+    tangents.set([t[0], t[1], t[2], w], v * 4)
+  }
+  return withAttribute(data, 'TANGENT', { array: tangents, itemSize: 4 })
+}
+
+/**
+ * axis aligned bounds of `POSITION`
+ */
+export const computeBoundingBox = (data: GeometryData) => {
+  const positions = data.attributes.POSITION
+  const min = Vec3.fromValues(Infinity, Infinity, Infinity)
+  const max = Vec3.fromValues(-Infinity, -Infinity, -Infinity)
+  for (let v = 0; v < vertexCountOf(data); v++) {
+    const p = read(positions, v)
+    Vec3.min(min, min, p)
+    Vec3.max(max, max, p)
+  }
+  return { min, max }
+}
+
+/**
+ * sphere around the center of the bounding box enclosing every `POSITION`
+ */
+export const computeBoundingSphere = (data: GeometryData) => {
+  const { min, max } = computeBoundingBox(data)
+  const center = Vec3.lerp(Vec3.create(), min, max, 0.5)
+  let radiusSquared = 0
+  for (let v = 0; v < vertexCountOf(data); v++) {
+    radiusSquared = Math.max(radiusSquared, Vec3.squaredDistance(center, read(data.attributes.POSITION, v)))
+  }
+  return { center, radius: Math.sqrt(radiusSquared) }
+}
+
+/**
+ * every triangle gets its own vertices
+ */
+export const toNonIndexed = (data: GeometryData): GeometryData => {
+  const { indices } = data
+  if (!indices) {
+    return data
+  }
+  const attributes = Object.fromEntries(
+    Object.entries(data.attributes).map(([name, { array, itemSize }]) => {
+      const result = new (array.constructor as TypedArrayConstructor)(indices.length * itemSize)
+      for (let i = 0; i < indices.length; i++) {
+        result.set(array.subarray(indices[i] * itemSize, (indices[i] + 1) * itemSize), i * itemSize)
+      }
+      return [name, { array: result, itemSize }]
+    })
+  )
+  return { attributes }
+}
+
+/**
+ * concatenate geometries with the same attributes into one indexed geometry
+ */
+export const mergeGeometries = (geometries: GeometryData[]): GeometryData => {
+  if (!geometries.length) {
+    return { attributes: {} }
+  }
+  const names = Object.keys(geometries[0].attributes)
+  for (const geometry of geometries) {
+    const other = Object.keys(geometry.attributes)
+    if (other.length !== names.length || names.some(v => !other.includes(v))) {
+      throw new Error(`mergeGeometries needs the same attributes, got ${names} and ${other}`)
+    }
+  }
+
+  const attributes = Object.fromEntries(
+    names.map(name => {
+      const { array, itemSize } = geometries[0].attributes[name]
+      const length = geometries.reduce((sum, v) => sum + v.attributes[name].array.length, 0)
+      const result = new (array.constructor as TypedArrayConstructor)(length)
+      let offset = 0
+      for (const geometry of geometries) {
+        result.set(geometry.attributes[name].array, offset)
+        offset += geometry.attributes[name].array.length
+      }
+      return [name, { array: result, itemSize }]
+    })
+  )
+
+  const indices: number[] = []
+  let base = 0
+  for (const geometry of geometries) {
+    for (const i of Array.from(indicesOf(geometry))) {
+      indices.push(i + base)
+    }
+    base += vertexCountOf(geometry)
+  }
+  return { attributes, indices: new Uint32Array(indices) }
+}
+
+/**
+ * merge vertices whose attributes are all equal within `tolerance` and reindex the triangles
+ */
+export const weldVertices = (data: GeometryData, tolerance = 1e-4): GeometryData => {
+  const entries = Object.entries(data.attributes)
+  const count = vertexCountOf(data)
+  const remap = new Uint32Array(count)
+  const keys = new Map<string, number>()
+  const kept: number[] = []
+  for (let v = 0; v < count; v++) {
+    const key = entries
+      .map(([, { array, itemSize }]) =>
+        Array.from(array.subarray(v * itemSize, (v + 1) * itemSize), x => Math.round(x / tolerance)).join(',')
+      )
+      .join('|')
+    let index = keys.get(key)
+    if (index === undefined) {
+      index = kept.push(v) - 1
+      keys.set(key, index)
+    }
+    remap[v] = index
+  }
+
+  const attributes = Object.fromEntries(
+    entries.map(([name, { array, itemSize }]) => {
+      const result = new (array.constructor as TypedArrayConstructor)(kept.length * itemSize)
+      kept.forEach((v, i) => result.set(array.subarray(v * itemSize, (v + 1) * itemSize), i * itemSize))
+      return [name, { array: result, itemSize }]
+    })
+  )
+  const indices = Uint32Array.from(indicesOf(data), i => remap[i])
+  return { attributes, indices }
+}
@@ -0,0 +1,124 @@
+import { createMemo } from 'solid-js'
+import { createPrimitiveBuilder, PrimitiveGeometry, PrimitiveProps } from './primitive'
+
+export type IcosahedronProps = PrimitiveProps & {
+  radius?: number
+  /**
+   * subdivisions of each face, 0 keeps flat faces, more approximate a sphere with smooth normals
+   */
+  detail?: number
+}
+
+const t = (1 + Math.sqrt(5)) / 2
+const baseVertices = [
+  [-1, t, 0],
+  [1, t, 0],
+  [-1, -t, 0],
+  [1, -t, 0],
+  [0, -1, t],
+  [0, 1, t],
+  [0, -1, -t],
+  [0, 1, -t],
+  [t, 0, -1],
+  [t, 0, 1],
+  [-t, 0, -1],
+  [-t, 0, 1]
+]
+const baseFaces = [
+  [0, 11, 5],
+  [0, 5, 1],
+  [0, 1, 7],
+  [0, 7, 10],
+  [0, 10, 11],
+  [1, 5, 9],
+  [5, 11, 4],
+  [11, 10, 2],
+  [10, 7, 6],
+  [7, 1, 8],
+  [3, 9, 4],
+  [3, 4, 2],
+  [3, 2, 6],
+  [3, 6, 8],
+  [3, 8, 9],
+  [4, 9, 5],
+  [2, 4, 11],
+  [6, 2, 10],
+  [8, 6, 7],
+  [9, 8, 1]
+]
+
+const lerp = (a: number[], b: number[], t: number) => a.map((v, i) => v + (b[i] - v) * t)
+const normalize = (v: number[]) => {
+  const length = Math.hypot(v[0], v[1], v[2])
+  return v.map(x => x / length)
+}
+const sub = (a: number[], b: number[]) => a.map((v, i) => v - b[i])
+const cross = (a: number[], b: number[]) => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0]
+]
+const azimuth = (v: number[]) => Math.atan2(v[2], -v[0])
+
+/**
+ * split a triangle into `(detail + 1)^2` triangles
+ */
+const subdivide = (a: number[], b: number[], c: number[], detail: number) => {
+  const cols = detail + 1
+  const grid: number[][][] = []
+  for (let i = 0; i <= cols; i++) {
+    const aj = lerp(a, c, i / cols)
+    const bj = lerp(b, c, i / cols)
+    const rows = cols - i
+    grid.push(Array.from({ length: rows + 1 }, (_, j) => (j === 0 && i === cols ? aj : lerp(aj, bj, j / rows))))
+  }
+  const triangles: number[][][] = []
+  for (let i = 0; i < cols; i++) {
+    for (let j = 0; j < 2 * (cols - i) - 1; j++) {
+      const k = Math.floor(j / 2)
+      triangles.push(
+        j % 2 === 0
+          ? [grid[i][k + 1], grid[i + 1][k], grid[i][k]]
+          : [grid[i][k + 1], grid[i + 1][k + 1], grid[i + 1][k]]
+      )
+    }
+  }
+  return triangles
+}
+
+const buildIcosahedron = (radius = 1, detail = 0) => {
+  const builder = createPrimitiveBuilder()
+  for (const [a, b, c] of baseFaces) {
+    for (const triangle of subdivide(baseVertices[a], baseVertices[b], baseVertices[c], detail)) {
+      const points = triangle.map(normalize)
+      const centroid = normalize(lerp(lerp(points[0], points[1], 0.5), points[2], 1 / 3))
+      const faceNormal = normalize(cross(sub(points[1], points[0]), sub(points[2], points[0])))
+      // spherical uv, poles take the azimuth of the triangle, triangles across the seam wrap past 1
+      const uvs = points.map(p => [
+        (Math.abs(p[0]) < 1e-9 && Math.abs(p[2]) < 1e-9 ? azimuth(centroid) : azimuth(p)) / (Math.PI * 2) + 0.5,
+        Math.atan2(-p[1], Math.hypot(p[0], p[2])) / Math.PI + 0.5
+      ])
+      const us = uvs.map(uv => uv[0])
+      if (Math.max(...us) > 0.9 && Math.min(...us) < 0.1) {
+        uvs.forEach(uv => uv[0] < 0.2 && (uv[0] += 1))
+      }
+      const indices = points.map((p, i) =>
+        builder.vertex(
+          p.map(v => v * radius),
+          detail === 0 ? faceNormal : p,
+          uvs[i]
+        )
+      )
+      builder.triangle(indices[0], indices[1], indices[2])
+    }
+  }
+  return builder.build()
+}
+
+/**
+ * regular icosahedron centered at the origin, vertices are not shared between triangles
+ */
+export const Icosahedron = (props: IcosahedronProps) => {
+  const data = createMemo(() => buildIcosahedron(props.radius, props.detail))
+  return <PrimitiveGeometry label={props.label} ref={props.ref} data={data()} />
+}
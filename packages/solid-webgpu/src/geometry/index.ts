@@ -1,2 +1,11 @@
+export * from './box'
+export * from './capsule'
+export * from './circle'
+export * from './cylinder'
 export * from './geometry'
+export * from './geometry_utils'
+export * from './icosahedron'
 export * from './plane'
+export * from './primitive'
+export * from './sphere'
+export * from './torus'
@@ -1,65 +1,35 @@
-import { Geometry, IndexBuffer, VertexBuffer } from './geometry'
+import { createMemo } from 'solid-js'
+import { createPrimitiveBuilder, PrimitiveGeometry, PrimitiveProps } from './primitive'
 
-export const Plane = () => {
-  return (
-    <Geometry
-      vertexBuffers={
-        <>
-          <VertexBuffer
-            layout={{
-              attributes: [
-                {
-                  shaderLocation: 0,
-                  offset: 0,
-                  format: 'float32x3'
-                } // POSITION
-              ],
-              arrayStride: 12
-            }}
-            value={new Float32Array([1, 1, 0, -1, 1, 0, -1, -1, 0, 1, -1, 0])}
-          />
-          <VertexBuffer
-            layout={{
-              attributes: [
-                {
-                  shaderLocation: 1,
-                  offset: 0,
-                  format: 'float32x3'
-                } // NORMAL
-              ],
-              arrayStride: 12
-            }}
-            value={new Float32Array([0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1])}
-          />
-          <VertexBuffer
-            layout={{
-              attributes: [
-                {
-                  shaderLocation: 2,
-                  offset: 0,
-                  format: 'float32x4'
-                } // TANGENT
-              ],
-              arrayStride: 16
-            }}
-            value={new Float32Array(4 * 4).fill(0)}
-          />
-          <VertexBuffer
-            layout={{
-              attributes: [
-                {
-                  shaderLocation: 3,
-                  offset: 0,
-                  format: 'float32x2'
-                } // UV
-              ],
-              arrayStride: 8
-            }}
-            value={new Float32Array([1, 1, 0, 1, 0, 0, 1, 0])}
-          />
-        </>
-      }
-      indexBuffer={<IndexBuffer value={new Uint32Array([0, 1, 2, 0, 2, 3])} />}
-    />
-  )
+export type PlaneProps = PrimitiveProps & {
+  width?: number
+  height?: number
+  widthSegments?: number
+  heightSegments?: number
+}
+
+/**
+ * grid in the xy plane facing +z, defaults to 2 x 2
+ */
+const buildPlane = (width = 2, height = 2, widthSegments = 1, heightSegments = 1) => {
+  const builder = createPrimitiveBuilder()
+  for (let iy = 0; iy <= heightSegments; iy++) {
+    for (let ix = 0; ix <= widthSegments; ix++) {
+      const u = ix / widthSegments
+      const v = iy / heightSegments
+      builder.vertex([(u - 0.5) * width, (0.5 - v) * height, 0], [0, 0, 1], [u, v])
+    }
+  }
+  const row = widthSegments + 1
+  for (let iy = 0; iy < heightSegments; iy++) {
+    for (let ix = 0; ix < widthSegments; ix++) {
+      builder.quad(ix + row * iy, ix + row * (iy + 1), ix + 1 + row * (iy + 1), ix + 1 + row * iy)
+    }
+  }
+  return builder.build()
+}
+
+export const Plane = (props: PlaneProps) => {
+  const data = createMemo(() => buildPlane(props.width, props.height, props.widthSegments, props.heightSegments))
+  return <PrimitiveGeometry label={props.label} ref={props.ref} data={data()} />
 }
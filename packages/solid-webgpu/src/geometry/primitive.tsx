@@ -0,0 +1,91 @@
+import { createMemo } from 'solid-js'
+import { Geometry, GeometryProps, IndexBuffer, VertexBuffer } from './geometry'
+import { computeTangents } from './geometry_utils'
+
+export type PrimitiveProps = Pick<GeometryProps, 'label' | 'ref'>
+
+/**
+ * vertex attributes & triangle list indices of a procedural geometry,
+ * uv origin is the top left corner of textures
+ */
+export type PrimitiveData = {
+  positions: Float32Array
+  normals: Float32Array
+  uvs: Float32Array
+  indices: Uint32Array
+}
+
+/**
+ * collects vertices & indices while a procedural geometry is built
+ */
+export const createPrimitiveBuilder = () => {
+  const positions: number[] = []
+  const normals: number[] = []
+  const uvs: number[] = []
+  const indices: number[] = []
+  return {
+    /**
+     * returns index of the new vertex
+     */
+    vertex: (position: number[], normal: number[], uv: number[]) => {
+      positions.push(...position)
+      normals.push(...normal)
+      uvs.push(...uv)
+      return positions.length / 3 - 1
+    },
+    triangle: (a: number, b: number, c: number) => {
+      indices.push(a, b, c)
+    },
+    /**
+     * two triangles of a counter-clockwise quad
+     */
+    quad: (a: number, b: number, c: number, d: number) => {
+      indices.push(a, b, d, b, c, d)
+    },
+    get vertexCount() {
+      return positions.length / 3
+    },
+    build: (): PrimitiveData => ({
+      positions: new Float32Array(positions),
+      normals: new Float32Array(normals),
+      uvs: new Float32Array(uvs),
+      indices: new Uint32Array(indices)
+    })
+  }
+}
+
+/**
+ * `Geometry` of built-in attributes with computed tangents, buffers are replaced whenever `data` changes
+ */
+export const PrimitiveGeometry = (props: PrimitiveProps & { data: PrimitiveData }) => {
+  const tangents = createMemo(() => {
+    const { positions, normals, uvs, indices } = props.data
+    const data = computeTangents({
+      attributes: {
+        POSITION: { array: positions, itemSize: 3 },
+        NORMAL: { array: normals, itemSize: 3 },
+        TEXCOORD_0: { array: uvs, itemSize: 2 }
+      },
+      indices
+    })
+    return data.attributes.TANGENT.array
+  })
+  return (
+    <Geometry
+      label={props.label}
+      ref={props.ref}
+      vertexBuffers={
+        <>
+          <VertexBuffer
+            attributes={[{ name: 'POSITION', format: 'float32x3', offset: 0 }]}
+            value={props.data.positions}
+          />
+          <VertexBuffer attributes={[{ name: 'NORMAL', format: 'float32x3', offset: 0 }]} value={props.data.normals} />
+          <VertexBuffer attributes={[{ name: 'TANGENT', format: 'float32x4', offset: 0 }]} value={tangents()} />
+          <VertexBuffer attributes={[{ name: 'TEXCOORD_0', format: 'float32x2', offset: 0 }]} value={props.data.uvs} />
+        </>
+      }
+      indexBuffer={<IndexBuffer value={props.data.indices} />}
+    />
+  )
+}
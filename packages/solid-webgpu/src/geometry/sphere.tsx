@@ -0,0 +1,58 @@
+import { createMemo } from 'solid-js'
+import { createPrimitiveBuilder, PrimitiveGeometry, PrimitiveProps } from './primitive'
+
+export type SphereProps = PrimitiveProps & {
+  radius?: number
+  widthSegments?: number
+  heightSegments?: number
+}
+
+/**
+ * uv sphere, u wraps around y starting at -x, v runs from the top pole to the bottom one
+ */
+const buildSphere = (radius = 1, widthSegments = 32, heightSegments = 16) => {
+  const builder = createPrimitiveBuilder()
+  const grid: number[][] = []
+  for (let iy = 0; iy <= heightSegments; iy++) {
+    const v = iy / heightSegments
+    // pole vertices sit in the middle of their triangle's uv span
+    const uOffset = iy === 0 ? 0.5 / widthSegments : iy === heightSegments ? -0.5 / widthSegments : 0
+    const row: number[] = []
+    for (let ix = 0; ix <= widthSegments; ix++) {
+      const u = ix / widthSegments
+      const normal = [
+        -Math.cos(u * Math.PI * 2) * Math.sin(v * Math.PI),
+        Math.cos(v * Math.PI),
+        Math.sin(u * Math.PI * 2) * Math.sin(v * Math.PI)
+      ]
+      row.push(
+        builder.vertex(
+          normal.map(n => n * radius),
+          normal,
+          [u + uOffset, v]
+        )
+      )
+    }
+    grid.push(row)
+  }
+  for (let iy = 0; iy < heightSegments; iy++) {
+    for (let ix = 0; ix < widthSegments; ix++) {
+      const a = grid[iy][ix + 1]
+      const b = grid[iy][ix]
+      const c = grid[iy + 1][ix]
+      const d = grid[iy + 1][ix + 1]
+      if (iy !== 0) {
+        builder.triangle(a, b, d)
+      }
+      if (iy !== heightSegments - 1) {
+        builder.triangle(b, c, d)
+      }
+    }
+  }
+  return builder.build()
+}
+
+export const Sphere = (props: SphereProps) => {
+  const data = createMemo(() => buildSphere(props.radius, props.widthSegments, props.heightSegments))
+  return <PrimitiveGeometry label={props.label} ref={props.ref} data={data()} />
+}
@@ -0,0 +1,44 @@
+import { createMemo } from 'solid-js'
+import { createPrimitiveBuilder, PrimitiveGeometry, PrimitiveProps } from './primitive'
+
+export type TorusProps = PrimitiveProps & {
+  /**
+   * from the center to the middle of the tube
+   */
+  radius?: number
+  tube?: number
+  radialSegments?: number
+  tubularSegments?: number
+}
+
+const buildTorus = (radius = 0.75, tube = 0.25, radialSegments = 16, tubularSegments = 48) => {
+  const builder = createPrimitiveBuilder()
+  for (let j = 0; j <= radialSegments; j++) {
+    for (let i = 0; i <= tubularSegments; i++) {
+      const u = (i / tubularSegments) * Math.PI * 2
+      const v = (j / radialSegments) * Math.PI * 2
+      const normal = [Math.cos(v) * Math.cos(u), Math.cos(v) * Math.sin(u), Math.sin(v)]
+      const position = [
+        (radius + tube * Math.cos(v)) * Math.cos(u),
+        (radius + tube * Math.cos(v)) * Math.sin(u),
+        tube * Math.sin(v)
+      ]
+      builder.vertex(position, normal, [i / tubularSegments, 1 - j / radialSegments])
+    }
+  }
+  const row = tubularSegments + 1
+  for (let j = 1; j <= radialSegments; j++) {
+    for (let i = 1; i <= tubularSegments; i++) {
+      builder.quad(row * j + i - 1, row * (j - 1) + i - 1, row * (j - 1) + i, row * j + i)
+    }
+  }
+  return builder.build()
+}
+
+/**
+ * ring around the z axis, lying in the xy plane
+ */
+export const Torus = (props: TorusProps) => {
+  const data = createMemo(() => buildTorus(props.radius, props.tube, props.radialSegments, props.tubularSegments))
+  return <PrimitiveGeometry label={props.label} ref={props.ref} data={data()} />
+}
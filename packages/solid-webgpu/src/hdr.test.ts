@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { parseHDR } from './hdr'
+
+const hdrFile = (width: number, height: number, pixels: number[]) =>
+  new Uint8Array([
+    ...new TextEncoder().encode(`#?RADIANCE\nFORMAT=32-bit_rle_rgbe\n\n-Y ${height} +X ${width}\n`),
+    ...pixels
+  ]).buffer
+
+test('flat scanlines decode rgbe to linear floats', () => {
+  const { width, height, data } = parseHDR(hdrFile(2, 1, [128, 64, 0, 129, 128, 128, 128, 130]))
+  assert.equal(width, 2)
+  assert.equal(height, 1)
+  assert.deepEqual([...data], [1, 0.5, 0, 1, 2, 2, 2, 1])
+})
+
+test('run length encoded scanlines decode each channel', () => {
+  // r: run of 8, g: 8 literals, b: run of 4 & run of 4, e: run of 8
+  const scanline = [
+    ...[2, 2, 0, 8],
+    ...[128 + 8, 128],
+    ...[8, 0, 16, 32, 48, 64, 80, 96, 112],
+    ...[128 + 4, 0, 128 + 4, 128],
+    ...[128 + 8, 129]
+  ]
+  const { data } = parseHDR(hdrFile(8, 1, scanline))
+  assert.deepEqual(
+    Array.from({ length: 8 }, (_, i) => [...data.subarray(i * 4, i * 4 + 4)]),
+    Array.from({ length: 8 }, (_, i) => [1, i / 8, i < 4 ? 0 : 1, 1])
+  )
+})
+
+test('run lengths past the scanline are rejected', () => {
+  const scanline = [2, 2, 0, 8, 128 + 9, 128]
+  assert.throws(() => parseHDR(hdrFile(8, 1, scanline)), /run length out of range/)
+  assert.throws(() => parseHDR(hdrFile(8, 1, [2, 2, 0, 8, 0])), /run length out of range/)
+})
+
+test('files without radiance header are rejected', () => {
+  assert.throws(() => parseHDR(new TextEncoder().encode('P6\n1 1\n255\n').buffer), /not valid Radiance HDR/)
+})
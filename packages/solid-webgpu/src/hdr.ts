@@ -0,0 +1,104 @@
+export type HDRImage = {
+  width: number
+  height: number
+  /**
+   * linear rgba, top row first
+   */
+  data: Float32Array
+}
+
+/**
+ * parse Radiance RGBE (.hdr) image, flat or run length encoded scanlines
+ */
+export const parseHDR = (buffer: ArrayBuffer): HDRImage => {
+  const bytes = new Uint8Array(buffer)
+  let pos = 0
+  const readLine = () => {
+    let line = ''
+    while (pos < bytes.length && bytes[pos] !== 0x0a) {
+      line += String.fromCharCode(bytes[pos++])
+    }
+    pos++
+    return line
+  }
+
+  if (!readLine().startsWith('#?')) {
+    throw new Error('File is not valid Radiance HDR')
+  }
+  let format: string | undefined
+  for (let line = readLine(); line !== ''; line = readLine()) {
+    if (pos >= bytes.length) {
+      throw new Error('hdr header is not terminated')
+    }
+    if (line.startsWith('FORMAT=')) {
+      format = line.slice(7)
+    }
+  }
+  if (format && format !== '32-bit_rle_rgbe') {
+    throw new Error(`Only support 32-bit_rle_rgbe hdr, got ${format}`)
+  }
+  const resolution = readLine().match(/^-Y (\d+) \+X (\d+)$/)
+  if (!resolution) {
+    throw new Error('Only support -Y +X hdr orientation')
+  }
+  const height = Number(resolution[1])
+  const width = Number(resolution[2])
+
+  const rgbe = new Uint8Array(width * height * 4)
+  const scanline = new Uint8Array(width * 4)
+  for (let y = 0; y < height; y++) {
+    const rle = width >= 8 && width <= 0x7fff && bytes[pos] === 2 && bytes[pos + 1] === 2 && !(bytes[pos + 2] & 0x80)
+    if (!rle) {
+      // remaining scanlines are stored flat
+      rgbe.set(bytes.subarray(pos, pos + (height - y) * width * 4), y * width * 4)
+      break
+    }
+    if (((bytes[pos + 2] << 8) | bytes[pos + 3]) !== width) {
+      throw new Error('hdr scanline width mismatch')
+    }
+    pos += 4
+
+    // each channel is run length encoded separately
+    for (let c = 0; c < 4; c++) {
+      let x = 0
+      while (x < width) {
+        let count = bytes[pos++]
+        const run = count > 128
+        if (run) {
+          count -= 128
+        }
+        if (!count || count > width - x) {
+          throw new Error('hdr scanline run length out of range')
+        }
+        if (run) {
+          const value = bytes[pos++]
+          for (let i = 0; i < count; i++) {
+            scanline[x++ * 4 + c] = value
+          }
+        } else {
+          for (let i = 0; i < count; i++) {
+            scanline[x++ * 4 + c] = bytes[pos++]
+          }
+        }
+      }
+    }
+    rgbe.set(scanline, y * width * 4)
+  }
+
+  const data = new Float32Array(width * height * 4)
+  for (let i = 0; i < width * height; i++) {
+    const e = rgbe[i * 4 + 3]
+    const f = e ? Math.pow(2, e - 136) : 0
+    data[i * 4] = rgbe[i * 4] * f
+    data[i * 4 + 1] = rgbe[i * 4 + 1] * f
+    data[i * 4 + 2] = rgbe[i * 4 + 2] * f
+    data[i * 4 + 3] = 1
+  }
+
+  return { width, height, data }
+}
+
+export const loadHDR = async (url: string) => {
+  const response = await fetch(url)
+  return parseHDR(await response.arrayBuffer())
+}
@@ -0,0 +1,231 @@
+import { HDRImage } from './hdr'
+import shaderCode from './ibl.wgsl?raw'
+
+export type IBLTextures = {
+  /**
+   * source environment with full mip chain
+   */
+  cube: GPUTexture
+  irradiance: GPUTexture
+  /**
+   * GGX prefiltered environment, roughness increases linearly with mip level
+   */
+  specular: GPUTexture
+  brdfLut: GPUTexture
+}
+
+const IRRADIANCE_SIZE = 32
+const SPECULAR_SIZE = 128
+export const SPECULAR_MIP_COUNT = 5
+const BRDF_LUT_SIZE = 256
+const SAMPLE_COUNT = 512
+/**
+ * minUniformBufferOffsetAlignment
+ */
+const PARAMS_STRIDE = 256
+const WORKGROUP_SIZE = 8
+
+type IBLPipelines = Record<
+  'equirect_to_cube' | 'sample_cube' | 'irradiance' | 'prefilter' | 'brdf_lut',
+  GPUComputePipeline
+>
+const pipelineCache = new WeakMap<GPUDevice, IBLPipelines>()
+
+const getPipelines = (device: GPUDevice) => {
+  let pipelines = pipelineCache.get(device)
+  if (!pipelines) {
+    const module = device.createShaderModule({ code: shaderCode, label: 'ibl' })
+    const create = (entryPoint: keyof IBLPipelines) =>
+      device.createComputePipeline({ label: `ibl ${entryPoint}`, layout: 'auto', compute: { module, entryPoint } })
+    pipelines = {
+      equirect_to_cube: create('equirect_to_cube'),
+      sample_cube: create('sample_cube'),
+      irradiance: create('irradiance'),
+      prefilter: create('prefilter'),
+      brdf_lut: create('brdf_lut')
+    }
+    pipelineCache.set(device, pipelines)
+  }
+  return pipelines
+}
+
+const toHalf = (() => {
+  const f = new Float32Array(1)
+  const u = new Uint32Array(f.buffer)
+  return (v: number) => {
+    f[0] = v
+    const x = u[0]
+    const sign = (x >>> 16) & 0x8000
+    const exponent = ((x >>> 23) & 0xff) - 127 + 15
+    if (exponent >= 31) {
+      // max finite half, inf of unclipped sun pixels would spread through mips and convolution
+      return sign | 0x7bff
+    }
+    if (exponent <= 0) {
+      return sign
+    }
+    return sign | (exponent << 10) | ((x >>> 13) & 0x3ff)
+  }
+})()
+
+/**
+ * upload hdr image as filterable `rgba16float` texture
+ */
+export const createHDRTexture = (device: GPUDevice, image: HDRImage) => {
+  const data = new Uint16Array(image.data.length)
+  for (let i = 0; i < data.length; i++) {
+    data[i] = toHalf(image.data[i])
+  }
+  const texture = device.createTexture({
+    label: 'hdr texture',
+    size: [image.width, image.height],
+    format: 'rgba16float',
+    usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST
+  })
+  device.queue.writeTexture({ texture }, data, { bytesPerRow: image.width * 8 }, [image.width, image.height])
+  return texture
+}
+
+const createCube = (device: GPUDevice, label: string, size: number, mipLevelCount: number) =>
+  device.createTexture({
+    label,
+    size: [size, size, 6],
+    format: 'rgba16float',
+    mipLevelCount,
+    usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.STORAGE_BINDING
+  })
+
+/**
+ * precompute irradiance, prefiltered specular and BRDF LUT on GPU,
+ * source is an equirectangular 2d texture or a cube texture with 6 layers
+ */
+export const createIBL = (
+  device: GPUDevice,
+  source: GPUTexture,
+  sourceType: 'equirect' | 'cube',
+  size: number
+): IBLTextures => {
+  const pipelines = getPipelines(device)
+  const cubeMipCount = Math.floor(Math.log2(size)) + 1
+  const cube = createCube(device, 'environment cube', size, cubeMipCount)
+  const irradiance = createCube(device, 'environment irradiance', IRRADIANCE_SIZE, 1)
+  const specular = createCube(device, 'environment specular', SPECULAR_SIZE, SPECULAR_MIP_COUNT)
+  const brdfLut = device.createTexture({
+    label: 'environment brdf lut',
+    size: [BRDF_LUT_SIZE, BRDF_LUT_SIZE],
+    format: 'rgba16float',
+    usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.STORAGE_BINDING
+  })
+
+  const sampler = device.createSampler({
+    magFilter: 'linear',
+    minFilter: 'linear',
+    mipmapFilter: 'linear',
+    addressModeU: sourceType === 'equirect' ? 'repeat' : 'clamp-to-edge'
+  })
+
+  const params = [
+    // roughness, sample count, lod, source size
+    ...Array.from({ length: SPECULAR_MIP_COUNT }, (_, i) => [i / (SPECULAR_MIP_COUNT - 1), SAMPLE_COUNT, 0, size]),
+    [0, SAMPLE_COUNT, Math.max(0, Math.log2(size / IRRADIANCE_SIZE)), size]
+  ]
+  const paramsBuffer = device.createBuffer({
+    label: 'ibl params',
+    size: params.length * PARAMS_STRIDE,
+    usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST
+  })
+  params.forEach(([roughness, sampleCount, lod, sourceSize], i) => {
+    const data = new ArrayBuffer(16)
+    new Float32Array(data).set([roughness, 0, lod, sourceSize])
+    new Uint32Array(data)[1] = sampleCount
+    device.queue.writeBuffer(paramsBuffer, i * PARAMS_STRIDE, data)
+  })
+  const paramsEntry = (i: number): GPUBindGroupEntry => ({
+    binding: 5,
+    resource: { buffer: paramsBuffer, offset: i * PARAMS_STRIDE, size: 16 }
+  })
+
+  const commandEncoder = device.createCommandEncoder({ label: 'ibl' })
+  const pass = commandEncoder.beginComputePass()
+  const dispatch = (pipeline: GPUComputePipeline, entries: GPUBindGroupEntry[], width: number, layers: number) => {
+    pass.setPipeline(pipeline)
+    pass.setBindGroup(0, device.createBindGroup({ layout: pipeline.getBindGroupLayout(0), entries }))
+    pass.dispatchWorkgroups(Math.ceil(width / WORKGROUP_SIZE), Math.ceil(width / WORKGROUP_SIZE), layers)
+  }
+  const cubeView = (texture: GPUTexture, mip: number) =>
+    texture.createView({ dimension: 'cube', baseMipLevel: mip, mipLevelCount: 1 })
+  const storageView = (texture: GPUTexture, mip: number) =>
+    texture.createView({ dimension: '2d-array', baseMipLevel: mip, mipLevelCount: 1 })
+
+  // mip 0 of environment cube
+  if (sourceType === 'equirect') {
+    dispatch(
+      pipelines.equirect_to_cube,
+      [
+        { binding: 0, resource: source.createView() },
+        { binding: 2, resource: sampler },
+        { binding: 3, resource: storageView(cube, 0) }
+      ],
+      size,
+      6
+    )
+  } else {
+    dispatch(
+      pipelines.sample_cube,
+      [
+        { binding: 1, resource: source.createView({ dimension: 'cube', mipLevelCount: 1 }) },
+        { binding: 2, resource: sampler },
+        { binding: 3, resource: storageView(cube, 0) }
+      ],
+      size,
+      6
+    )
+  }
+
+  // downsample mip chain
+  for (let mip = 1; mip < cubeMipCount; mip++) {
+    dispatch(
+      pipelines.sample_cube,
+      [
+        { binding: 1, resource: cubeView(cube, mip - 1) },
+        { binding: 2, resource: sampler },
+        { binding: 3, resource: storageView(cube, mip) }
+      ],
+      size >> mip,
+      6
+    )
+  }
+
+  const cubeFullView = cube.createView({ dimension: 'cube' })
+  dispatch(
+    pipelines.irradiance,
+    [
+      { binding: 1, resource: cubeFullView },
+      { binding: 2, resource: sampler },
+      { binding: 3, resource: storageView(irradiance, 0) },
+      paramsEntry(SPECULAR_MIP_COUNT)
+    ],
+    IRRADIANCE_SIZE,
+    6
+  )
+  for (let mip = 0; mip < SPECULAR_MIP_COUNT; mip++) {
+    dispatch(
+      pipelines.prefilter,
+      [
+        { binding: 1, resource: cubeFullView },
+        { binding: 2, resource: sampler },
+        { binding: 3, resource: storageView(specular, mip) },
+        paramsEntry(mip)
+      ],
+      SPECULAR_SIZE >> mip,
+      6
+    )
+  }
+  dispatch(pipelines.brdf_lut, [{ binding: 4, resource: brdfLut.createView() }, paramsEntry(0)], BRDF_LUT_SIZE, 1)
+
+  pass.end()
+  device.queue.submit([commandEncoder.finish()])
+  paramsBuffer.destroy()
+
+  return { cube, irradiance, specular, brdfLut }
+}
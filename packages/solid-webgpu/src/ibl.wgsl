@@ -0,0 +1,184 @@
+struct Params {
+    roughness: f32,
+    sample_count: u32,
+    // mip level of source cube sampled by irradiance
+    lod: f32,
+    // face size of source cube
+    source_size: f32,
+}
+
+@group(0) @binding(0)
+var src_equirect: texture_2d<f32>;
+
+@group(0) @binding(1)
+var src_cube: texture_cube<f32>;
+
+@group(0) @binding(2)
+var src_sampler: sampler;
+
+@group(0) @binding(3)
+var dst_cube: texture_storage_2d_array<rgba16float, write>;
+
+@group(0) @binding(4)
+var dst_lut: texture_storage_2d<rgba16float, write>;
+
+@group(0) @binding(5)
+var<uniform> params: Params;
+
+const PI: f32 = 3.14159265359;
+
+// world direction of texel, face order +X, -X, +Y, -Y, +Z, -Z
+fn cube_direction(id: vec3<u32>, size: u32) -> vec3<f32> {
+    let uv = (vec2<f32>(id.xy) + 0.5) / f32(size) * 2.0 - 1.0;
+    switch id.z {
+        case 0u: { return normalize(vec3<f32>(1.0, -uv.y, -uv.x)); }
+        case 1u: { return normalize(vec3<f32>(-1.0, -uv.y, uv.x)); }
+        case 2u: { return normalize(vec3<f32>(uv.x, 1.0, uv.y)); }
+        case 3u: { return normalize(vec3<f32>(uv.x, -1.0, -uv.y)); }
+        case 4u: { return normalize(vec3<f32>(uv.x, -uv.y, 1.0)); }
+        default: { return normalize(vec3<f32>(-uv.x, -uv.y, -1.0)); }
+    }
+}
+
+fn hammersley(i: u32, n: u32) -> vec2<f32> {
+    return vec2<f32>(f32(i) / f32(n), f32(reverseBits(i)) * 2.3283064365386963e-10);
+}
+
+fn importance_sample_ggx(xi: vec2<f32>, n: vec3<f32>, roughness: f32) -> vec3<f32> {
+    let a = roughness * roughness;
+    let phi = 2.0 * PI * xi.x;
+    let cos_theta = sqrt((1.0 - xi.y) / (1.0 + (a * a - 1.0) * xi.y));
+    let sin_theta = sqrt(1.0 - cos_theta * cos_theta);
+    let h = vec3<f32>(cos(phi) * sin_theta, sin(phi) * sin_theta, cos_theta);
+
+    let up = select(vec3<f32>(1.0, 0.0, 0.0), vec3<f32>(0.0, 0.0, 1.0), abs(n.z) < 0.999);
+    let tangent = normalize(cross(up, n));
+    let bitangent = cross(n, tangent);
+    return normalize(tangent * h.x + bitangent * h.y + n * h.z);
+}
+
+fn distribution_ggx(n_dot_h: f32, roughness: f32) -> f32 {
+    let a = roughness * roughness;
+    let a2 = a * a;
+    let denom = n_dot_h * n_dot_h * (a2 - 1.0) + 1.0;
+    return a2 / (PI * denom * denom);
+}
+
+fn geometry_smith_ibl(n_dot_v: f32, n_dot_l: f32, roughness: f32) -> f32 {
+    let k = roughness * roughness / 2.0;
+    return (n_dot_v / (n_dot_v * (1.0 - k) + k)) * (n_dot_l / (n_dot_l * (1.0 - k) + k));
+}
+
+@compute @workgroup_size(8, 8, 1)
+fn equirect_to_cube(@builtin(global_invocation_id) id: vec3<u32>) {
+    let size = textureDimensions(dst_cube).x;
+    if id.x >= size || id.y >= size {
+        return;
+    }
+    let dir = cube_direction(id, size);
+    let uv = vec2<f32>(atan2(dir.z, dir.x) / (2.0 * PI) + 0.5, acos(clamp(dir.y, -1.0, 1.0)) / PI);
+    let color = textureSampleLevel(src_equirect, src_sampler, uv, 0.0);
+    textureStore(dst_cube, id.xy, id.z, vec4<f32>(color.rgb, 1.0));
+}
+
+// copy cube faces or downsample previous mip, source view holds a single mip
+@compute @workgroup_size(8, 8, 1)
+fn sample_cube(@builtin(global_invocation_id) id: vec3<u32>) {
+    let size = textureDimensions(dst_cube).x;
+    if id.x >= size || id.y >= size {
+        return;
+    }
+    let color = textureSampleLevel(src_cube, src_sampler, cube_direction(id, size), 0.0);
+    textureStore(dst_cube, id.xy, id.z, vec4<f32>(color.rgb, 1.0));
+}
+
+@compute @workgroup_size(8, 8, 1)
+fn irradiance(@builtin(global_invocation_id) id: vec3<u32>) {
+    let size = textureDimensions(dst_cube).x;
+    if id.x >= size || id.y >= size {
+        return;
+    }
+    let n = cube_direction(id, size);
+    var up = select(vec3<f32>(0.0, 0.0, 1.0), vec3<f32>(0.0, 1.0, 0.0), abs(n.y) < 0.999);
+    let right = normalize(cross(up, n));
+    up = cross(n, right);
+
+    // uniform hemisphere grid weighted by cosine
+    var sum = vec3<f32>(0.0);
+    let phi_steps = 64u;
+    let theta_steps = 16u;
+    for (var i = 0u; i < phi_steps; i++) {
+        let phi = 2.0 * PI * (f32(i) + 0.5) / f32(phi_steps);
+        for (var j = 0u; j < theta_steps; j++) {
+            let theta = 0.5 * PI * (f32(j) + 0.5) / f32(theta_steps);
+            let dir = sin(theta) * cos(phi) * right + sin(theta) * sin(phi) * up + cos(theta) * n;
+            sum += textureSampleLevel(src_cube, src_sampler, dir, params.lod).rgb * cos(theta) * sin(theta);
+        }
+    }
+    let color = PI * sum / f32(phi_steps * theta_steps);
+    textureStore(dst_cube, id.xy, id.z, vec4<f32>(color, 1.0));
+}
+
+@compute @workgroup_size(8, 8, 1)
+fn prefilter(@builtin(global_invocation_id) id: vec3<u32>) {
+    let size = textureDimensions(dst_cube).x;
+    if id.x >= size || id.y >= size {
+        return;
+    }
+    let n = cube_direction(id, size);
+    let roughness = params.roughness;
+    if roughness == 0.0 {
+        textureStore(dst_cube, id.xy, id.z, vec4<f32>(textureSampleLevel(src_cube, src_sampler, n, 0.0).rgb, 1.0));
+        return;
+    }
+
+    // pick source mip by solid angle of each sample to avoid fireflies
+    let texel_solid_angle = 4.0 * PI / (6.0 * params.source_size * params.source_size);
+    var sum = vec3<f32>(0.0);
+    var weight = 0.0;
+    for (var i = 0u; i < params.sample_count; i++) {
+        let h = importance_sample_ggx(hammersley(i, params.sample_count), n, roughness);
+        let l = normalize(2.0 * dot(n, h) * h - n);
+        let n_dot_l = dot(n, l);
+        if n_dot_l > 0.0 {
+            let n_dot_h = max(dot(n, h), 0.0);
+            let pdf = distribution_ggx(n_dot_h, roughness) / 4.0 + 0.0001;
+            let sample_solid_angle = 1.0 / (f32(params.sample_count) * pdf);
+            let lod = 0.5 * log2(sample_solid_angle / texel_solid_angle) + 1.0;
+            sum += textureSampleLevel(src_cube, src_sampler, l, max(lod, 0.0)).rgb * n_dot_l;
+            weight += n_dot_l;
+        }
+    }
+    textureStore(dst_cube, id.xy, id.z, vec4<f32>(sum / max(weight, 0.0001), 1.0));
+}
+
+// split sum approximation, x: NdotV, y: roughness
+@compute @workgroup_size(8, 8, 1)
+fn brdf_lut(@builtin(global_invocation_id) id: vec3<u32>) {
+    let size = textureDimensions(dst_lut);
+    if id.x >= size.x || id.y >= size.y {
+        return;
+    }
+    let n_dot_v = (f32(id.x) + 0.5) / f32(size.x);
+    let roughness = (f32(id.y) + 0.5) / f32(size.y);
+    let v = vec3<f32>(sqrt(1.0 - n_dot_v * n_dot_v), 0.0, n_dot_v);
+    let n = vec3<f32>(0.0, 0.0, 1.0);
+
+    var a = 0.0;
+    var b = 0.0;
+    for (var i = 0u; i < params.sample_count; i++) {
+        let h = importance_sample_ggx(hammersley(i, params.sample_count), n, roughness);
+        let l = normalize(2.0 * dot(v, h) * h - v);
+        let n_dot_l = max(l.z, 0.0);
+        if n_dot_l > 0.0 {
+            let n_dot_h = max(h.z, 0.0);
+            let v_dot_h = max(dot(v, h), 0.0);
+            let g_vis = geometry_smith_ibl(n_dot_v, n_dot_l, roughness) * v_dot_h / (n_dot_h * n_dot_v);
+            let fc = pow(1.0 - v_dot_h, 5.0);
+            a += (1.0 - fc) * g_vis;
+            b += fc * g_vis;
+        }
+    }
+    let count = f32(params.sample_count);
+    textureStore(dst_lut, id.xy, vec4<f32>(a / count, b / count, 0.0, 1.0));
+}
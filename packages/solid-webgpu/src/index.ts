@@ -1,11 +1,25 @@
 export * from 'math'
+export * from './animation'
 export * from './camera'
 export * from './canvas'
+export * from './compressed_texture'
+export * from './device'
 export * from './geometry'
+export * from './hdr'
 export * from './material'
 export * from './mesh'
+export * from './mipmap'
 export * from './object3d'
 export * from './punctual_light'
+export * from './render_target'
+export * from './skeleton'
 export * from './types'
+export * from './use_frame'
 export * from './use_orbit_control'
 export * from './utils'
+export { useSceneContext } from './context'
+export { Background } from './background'
+export type { BackgroundProps } from './background'
+export { Environment } from './environment'
+export type { EnvironmentProps } from './environment'
+export type { FrameCallback, Frameloop, FrameState, SceneContext } from './context'
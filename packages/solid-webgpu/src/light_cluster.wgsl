@@ -0,0 +1,87 @@
+struct PunctualLight {
+    position: vec3<f32>,
+    direction: vec3<f32>,
+    color: vec3<f32>,
+    intensity: f32,
+    range: f32,
+    inner_cone_angle: f32,
+    outer_cone_angle: f32,
+    light_type: u32, // 1: directional, 2: point, 3: spot
+}
+
+struct PunctualLights {
+    count: u32,
+    cluster_enabled: u32,
+    near: f32,
+    far: f32,
+    screen_size: vec2<f32>,
+    lights: array<PunctualLight>,
+}
+
+struct ClusterUniforms {
+    view: mat4x4<f32>,
+    inverse_projection: mat4x4<f32>,
+}
+
+// keep in sync with lights.ts and default_pbr.wgsl
+const cluster_dims = vec3<u32>(16u, 9u, 24u);
+const max_cluster_lights = 63u;
+
+@group(0) @binding(0)
+var<storage, read> punctual_lights: PunctualLights;
+
+@group(0) @binding(1)
+var<uniform> cluster_uniforms: ClusterUniforms;
+
+@group(0) @binding(2)
+var<storage, read_write> light_clusters: array<u32>;
+
+// point in view space at `depth` along the ray through `ndc`
+fn ndc_to_view(ndc: vec2<f32>, depth: f32) -> vec3<f32> {
+    let p = cluster_uniforms.inverse_projection * vec4<f32>(ndc, 0.0, 1.0);
+    let v = p.xyz / p.w;
+    return v * (depth / -v.z);
+}
+
+@compute @workgroup_size(4, 3, 4)
+fn cs_main(@builtin(global_invocation_id) id: vec3<u32>) {
+    if any(id >= cluster_dims) {
+        return;
+    }
+
+    // exponential depth slices, tiles from top left of screen
+    let near = punctual_lights.near;
+    let far = punctual_lights.far;
+    let z0 = near * pow(far / near, f32(id.z) / f32(cluster_dims.z));
+    let z1 = near * pow(far / near, f32(id.z + 1u) / f32(cluster_dims.z));
+    let tile = vec2<f32>(cluster_dims.xy);
+    let ndc_min = vec2<f32>(f32(id.x) / tile.x * 2.0 - 1.0, 1.0 - f32(id.y + 1u) / tile.y * 2.0);
+    let ndc_max = vec2<f32>(f32(id.x + 1u) / tile.x * 2.0 - 1.0, 1.0 - f32(id.y) / tile.y * 2.0);
+
+    var aabb_min = vec3<f32>(3.4e38);
+    var aabb_max = vec3<f32>(-3.4e38);
+    for (var i = 0u; i < 8u; i++) {
+        let ndc = select(ndc_min, ndc_max, vec2<bool>((i & 1u) != 0u, (i & 2u) != 0u));
+        let p = ndc_to_view(ndc, select(z0, z1, (i & 4u) != 0u));
+        aabb_min = min(aabb_min, p);
+        aabb_max = max(aabb_max, p);
+    }
+
+    let base = (id.x + id.y * cluster_dims.x + id.z * cluster_dims.x * cluster_dims.y) * (max_cluster_lights + 1u);
+    var count = 0u;
+    for (var i = 0u; i < punctual_lights.count && count < max_cluster_lights; i++) {
+        let light = punctual_lights.lights[i];
+        var visible = true;
+        // directional lights and lights without range affect every cluster
+        if light.light_type != 1u && light.range < 3.4e38 {
+            let center = (cluster_uniforms.view * vec4<f32>(light.position, 1.0)).xyz;
+            let d = clamp(center, aabb_min, aabb_max) - center;
+            visible = dot(d, d) <= light.range * light.range;
+        }
+        if visible {
+            light_clusters[base + 1u + count] = i;
+            count++;
+        }
+    }
+    light_clusters[base] = count;
+}
@@ -0,0 +1,190 @@
+import { Mat4, Vec3 } from 'math'
+import { createEffect, createSignal, onCleanup, untrack } from 'solid-js'
+import { SetStoreFunction } from 'solid-js/store'
+import { SceneContext } from './context'
+import shaderCode from './light_cluster.wgsl?raw'
+import { CameraContext, PunctualLightContext } from './types'
+
+/**
+ * struct PunctualLights header: count, cluster_enabled, near, far, screen_size, padding
+ */
+const LIGHT_HEADER_LENGTH = 8
+/**
+ * struct PunctualLight, 64 bytes
+ */
+const LIGHT_STRIDE = 16
+/**
+ * keep in sync with light_cluster.wgsl and default_pbr.wgsl
+ */
+export const CLUSTER_DIMS = [16, 9, 24] as const
+export const MAX_CLUSTER_LIGHTS = 63
+const CLUSTER_WORKGROUP_SIZE = [4, 3, 4] as const
+/**
+ * cap for cameras with infinite far plane
+ */
+const CLUSTER_MAX_FAR = 1000
+
+const lightTypes: Record<PunctualLightContext['lightType'], number> = {
+  directional: 1,
+  point: 2,
+  spot: 3
+}
+
+const clusterData = new Float32Array(32)
+const headerData = new Float32Array(4)
+const tempInverse = Mat4.create()
+const tempPoint = Vec3.create()
+
+/**
+ * keep punctual lights of scene in a storage buffer, growing with `lightList`
+ */
+export const createLights = (scene: SceneContext, setScene: SetStoreFunction<SceneContext>) => {
+  const [capacity, setCapacity] = createSignal(4)
+
+  createEffect(() => {
+    const { device } = scene
+    const buffer = device.createBuffer({
+      label: 'punctual lights buffer',
+      size: (LIGHT_HEADER_LENGTH + capacity() * LIGHT_STRIDE) * 4,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST
+    })
+    setScene('lights', 'buffer', buffer)
+
+    onCleanup(() => buffer.destroy())
+  })
+
+  /**
+   * update light values
+   */
+  createEffect(() => {
+    const { device, lightList, lightCulling } = scene
+    const buffer = scene.lights.buffer
+    if (!buffer) {
+      return
+    }
+    if (lightList.length > untrack(capacity)) {
+      let next = untrack(capacity)
+      while (next < lightList.length) {
+        next *= 2
+      }
+      setCapacity(next)
+      return
+    }
+
+    const lightValues = new Float32Array(LIGHT_HEADER_LENGTH + lightList.length * LIGHT_STRIDE)
+    const view = new DataView(lightValues.buffer)
+    view.setUint32(0, lightList.length, true)
+    view.setUint32(4, lightCulling === 'clustered' ? 1 : 0, true)
+
+    for (let i = 0; i < lightList.length; i++) {
+      const light = scene.nodes[lightList[i]] as PunctualLightContext
+
+      const offset = LIGHT_HEADER_LENGTH + i * LIGHT_STRIDE
+      // position
+      Vec3.copy(lightValues.subarray(offset + 0, offset + 3), light.matrix().subarray(12, 15))
+      // direction
+      Vec3.copy(lightValues.subarray(offset + 4, offset + 7), light.matrix().subarray(8, 11))
+      Vec3.copy(lightValues.subarray(offset + 8, offset + 11), light.color())
+
+      lightValues[offset + 11] = light.intensity
+      lightValues[offset + 12] = light.range ?? Infinity
+      lightValues[offset + 13] = light.innerConeAngle
+      lightValues[offset + 14] = light.outerConeAngle
+
+      view.setUint32((offset + 15) * 4, lightTypes[light.lightType], true)
+    }
+
+    device.queue.writeBuffer(buffer, 0, lightValues)
+    // bind group stays the same, request frame manually
+    scene.invalidate()
+  })
+
+  /**
+   * cluster buffers, a minimal placeholder is bound when culling is disabled
+   */
+  createEffect(() => {
+    const { device, lightCulling } = scene
+    const clustered = lightCulling === 'clustered'
+    const clusterCount = CLUSTER_DIMS[0] * CLUSTER_DIMS[1] * CLUSTER_DIMS[2]
+    const clusterBuffer = device.createBuffer({
+      label: 'light cluster buffer',
+      size: clustered ? clusterCount * (MAX_CLUSTER_LIGHTS + 1) * 4 : 16,
+      usage: GPUBufferUsage.STORAGE
+    })
+    setScene('lights', 'clusterBuffer', clusterBuffer)
+    onCleanup(() => clusterBuffer.destroy())
+
+    if (!clustered) {
+      setScene('lights', { clusterUniformBuffer: undefined, clusterPipeline: undefined, clusterBindGroup: undefined })
+      return
+    }
+
+    const clusterUniformBuffer = device.createBuffer({
+      label: 'light cluster uniform buffer',
+      size: clusterData.byteLength,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST
+    })
+    const clusterPipeline = device.createComputePipeline({
+      label: 'light cluster pipeline',
+      layout: 'auto',
+      compute: {
+        module: device.createShaderModule({ code: shaderCode }),
+        entryPoint: 'cs_main'
+      }
+    })
+    setScene('lights', { clusterUniformBuffer, clusterPipeline })
+    onCleanup(() => clusterUniformBuffer.destroy())
+
+    createEffect(() => {
+      const buffer = scene.lights.buffer
+      if (!buffer) {
+        return
+      }
+      setScene(
+        'lights',
+        'clusterBindGroup',
+        device.createBindGroup({
+          layout: clusterPipeline.getBindGroupLayout(0),
+          entries: [
+            { binding: 0, resource: { buffer } },
+            { binding: 1, resource: { buffer: clusterUniformBuffer } },
+            { binding: 2, resource: { buffer: clusterBuffer } }
+          ]
+        })
+      )
+    })
+  })
+}
+
+/**
+ * assign lights to clusters of current camera frustum
+ */
+export const updateLightClusters = (scene: SceneContext, commandEncoder: GPUCommandEncoder) => {
+  const { device, lights, currentCamera, width, height } = scene
+  const { buffer, clusterUniformBuffer, clusterPipeline, clusterBindGroup } = lights
+  if (!currentCamera || !buffer || !clusterUniformBuffer || !clusterPipeline || !clusterBindGroup) {
+    return
+  }
+  const camera = scene.nodes[currentCamera] as CameraContext
+
+  Mat4.copy(clusterData.subarray(0, 16), camera.viewMatrix())
+  Mat4.invert(tempInverse, camera.projectionMatrix())
+  Mat4.copy(clusterData.subarray(16, 32), tempInverse)
+  device.queue.writeBuffer(clusterUniformBuffer, 0, clusterData)
+
+  Vec3.transformMat4(tempPoint, [0, 0, 0], tempInverse)
+  const near = -tempPoint[2]
+  Vec3.transformMat4(tempPoint, [0, 0, 1], tempInverse)
+  const far = Number.isFinite(tempPoint[2]) ? Math.min(-tempPoint[2], CLUSTER_MAX_FAR) : CLUSTER_MAX_FAR
+
+  headerData.set([near, far, width, height])
+  device.queue.writeBuffer(buffer, 8, headerData)
+
+  const passEncoder = commandEncoder.beginComputePass()
+  passEncoder.setPipeline(clusterPipeline)
+  passEncoder.setBindGroup(0, clusterBindGroup)
+  passEncoder.dispatchWorkgroups(
+    ...(CLUSTER_DIMS.map((v, i) => Math.ceil(v / CLUSTER_WORKGROUP_SIZE[i])) as [number, number, number])
+  )
+  passEncoder.end()
+}
@@ -0,0 +1,100 @@
+import { OutputColorSpace, ToneMapping } from '../types'
+
+const toneMappingCode: Record<ToneMapping, string> = {
+  none: /* wgsl */ `
+fn tone_mapping(color: vec3<f32>) -> vec3<f32> {
+    return color;
+}`,
+  reinhard: /* wgsl */ `
+fn tone_mapping(color: vec3<f32>) -> vec3<f32> {
+    return color / (color + vec3<f32>(1.0));
+}`,
+  // Stephen Hill's fit of ACES RRT + ODT
+  aces: /* wgsl */ `
+fn tone_mapping(color: vec3<f32>) -> vec3<f32> {
+    let aces_input = mat3x3<f32>(
+        0.59719, 0.07600, 0.02840,
+        0.35458, 0.90834, 0.13383,
+        0.04823, 0.01566, 0.83777
+    );
+    let aces_output = mat3x3<f32>(
+        1.60475, -0.10208, -0.00327,
+        -0.53108, 1.10813, -0.07276,
+        -0.07367, -0.00605, 1.07602
+    );
+    let v = aces_input * color;
+    let a = v * (v + 0.0245786) - 0.000090537;
+    let b = v * (0.983729 * v + 0.4329510) + 0.238081;
+    return saturate(aces_output * (a / b));
+}`,
+  // minimal AgX by Benjamin Wrensch, returns linear color
+  agx: /* wgsl */ `
+fn agx_contrast_approx(x: vec3<f32>) -> vec3<f32> {
+    let x2 = x * x;
+    let x4 = x2 * x2;
+    return 15.5 * x4 * x2 - 40.14 * x4 * x + 31.96 * x4 - 6.868 * x2 * x + 0.4298 * x2 + 0.1191 * x - 0.00232;
+}
+fn tone_mapping(color: vec3<f32>) -> vec3<f32> {
+    let agx_inset = mat3x3<f32>(
+        0.842479062253094, 0.0423282422610123, 0.0423756549057051,
+        0.0784335999999992, 0.878468636469772, 0.0784336,
+        0.0792237451477643, 0.0791661274605434, 0.879142973793104
+    );
+    let agx_outset = mat3x3<f32>(
+        1.19687900512017, -0.0528968517574562, -0.0529716355144438,
+        -0.0980208811401368, 1.15190312990417, -0.0980434501171241,
+        -0.0990297440797205, -0.0989611768448433, 1.15107367264116
+    );
+    let min_ev = -12.47393;
+    let max_ev = 4.026069;
+    var v = agx_inset * color;
+    v = clamp(log2(max(v, vec3<f32>(1e-10))), vec3<f32>(min_ev), vec3<f32>(max_ev));
+    v = (v - min_ev) / (max_ev - min_ev);
+    v = agx_outset * agx_contrast_approx(v);
+    return pow(max(v, vec3<f32>(0.0)), vec3<f32>(2.2));
+}`
+}
+
+const srgbTransfer = /* wgsl */ `
+fn srgb_transfer(color: vec3<f32>) -> vec3<f32> {
+    let low = color * 12.92;
+    let high = 1.055 * pow(color, vec3<f32>(1.0 / 2.4)) - 0.055;
+    return select(high, low, color <= vec3<f32>(0.0031308));
+}`
+
+const outputColorSpaceCode: Record<OutputColorSpace, string> = {
+  linear: /* wgsl */ `
+fn linear_to_output(color: vec3<f32>) -> vec3<f32> {
+    return color;
+}`,
+  srgb: /* wgsl */ `${srgbTransfer}
+fn linear_to_output(color: vec3<f32>) -> vec3<f32> {
+    return srgb_transfer(saturate(color));
+}`,
+  // display-p3 shares transfer function with srgb
+  'display-p3': /* wgsl */ `${srgbTransfer}
+fn linear_to_output(color: vec3<f32>) -> vec3<f32> {
+    let srgb_to_p3 = mat3x3<f32>(
+        0.8224621, 0.0331941, 0.0170827,
+        0.1775380, 0.9668058, 0.0723974,
+        0.0, 0.0, 0.9105199
+    );
+    return srgb_transfer(saturate(srgb_to_p3 * color));
+}`
+}
+
+export const usesBuiltin = (code: string, name: string) =>
+  new RegExp(`\\b${name}\\s*\\(`).test(code) && !new RegExp(`\\bfn\\s+${name}\\b`).test(code)
+
+/**
+ * append built-in `tone_mapping` & `linear_to_output` functions if shader calls them without own definition
+ */
+export const withColorManagement = (code: string, toneMapping: ToneMapping, outputColorSpace: OutputColorSpace) => {
+  if (usesBuiltin(code, 'tone_mapping')) {
+    code += '\n' + toneMappingCode[toneMapping]
+  }
+  if (usesBuiltin(code, 'linear_to_output')) {
+    code += '\n' + outputColorSpaceCode[outputColorSpace]
+  }
+  return code
+}
@@ -2,14 +2,31 @@ struct VertexInput {
     @location(0) POSITION: vec3<f32>,
     @location(1) NORMAL: vec3<f32>,
     @location(2) TANGENT: vec4<f32>,
-    @location(3) TEXCOORD_0: vec2<f32>
+    @location(3) TEXCOORD_0: vec2<f32>,
+    @location(4) JOINTS_0: vec4<u32>,
+    @location(5) WEIGHTS_0: vec4<f32>,
+    @location(6) COLOR_0: vec4<f32>
 };
 
+struct MorphDelta {
+    position: vec3<f32>,
+    normal: vec3<f32>,
+    tangent: vec3<f32>,
+}
+
+struct MorphTargets {
+    vertex_count: u32,
+    target_count: u32,
+    deltas: array<MorphDelta>,
+}
+
 struct VertexOutput {
     @builtin(position) clip_position: vec4<f32>,
     @location(0) world_position: vec3<f32>,
     @location(1) world_normal: vec3<f32>,
     @location(2) uv: vec2<f32>,
+    @location(3) world_tangent: vec4<f32>,
+    @location(4) color: vec4<f32>,
 };
 
 struct BaseUniforms {
@@ -18,7 +35,8 @@ struct BaseUniforms {
     projection: mat4x4<f32>,
     model_view: mat4x4<f32>,
     normal_matrix: mat3x3<f32>,
-    camera_position: vec3<f32>
+    camera_position: vec3<f32>,
+    receive_shadow: u32
 };
 
 struct PBRParams {
@@ -26,7 +44,28 @@ struct PBRParams {
     metallic: f32,
     roughness: f32,
     ao: f32,
-    use_textures: u32, // Bitfield to indicate use value or textures
+    // Bitfield to indicate use value or textures
+    // 0: albedo, 1: roughness & metallic, 2: normal, 3: occlusion, 4: emissive, 5: occlusion in red channel of bit 1
+    // 6: clearcoat, 7: clearcoat roughness, 8: clearcoat normal, 9: sheen color, 10: sheen roughness,
+    // 11: specular, 12: specular color, 13: transmission
+    use_textures: u32,
+    alpha: f32,
+    emissive: vec3<f32>,
+    normal_scale: f32,
+    occlusion_strength: f32,
+    alpha_cutoff: f32,
+    alpha_mode: u32, // 0: opaque, 1: mask, 2: blend
+    ior: f32,
+    specular_color: vec3<f32>,
+    specular: f32,
+    sheen_color: vec3<f32>,
+    sheen_roughness: f32,
+    clearcoat: f32,
+    clearcoat_roughness: f32,
+    clearcoat_normal_scale: f32,
+    transmission: f32,
+    // texture coordinate transform of each texture, see texture_slot in pbr_material.tsx
+    uv_transforms: array<mat3x3<f32>, 10>,
 };
 
 struct PunctualLight {
@@ -40,6 +79,15 @@ struct PunctualLight {
     light_type: u32, // 0: disable, 1: directional, 2: point, 3: spot
 }
 
+struct PunctualLights {
+    count: u32,
+    cluster_enabled: u32,
+    near: f32,
+    far: f32,
+    screen_size: vec2<f32>,
+    lights: array<PunctualLight>,
+}
+
 @group(0) @binding(0)
 var<uniform> uniforms: BaseUniforms;
 
@@ -53,43 +101,264 @@ var albedo_texture: texture_2d<f32>;
 var occlusion_roughness_metallic_texture: texture_2d<f32>;
 
 @group(0) @binding(4)
-var texture_sampler: sampler;
+var albedo_sampler: sampler;
+
 
+// only the first lights cast shadows, keep in sync with shadow.ts
+const shadow_light_num = 4;
 
-const light_num = 4;
+// keep in sync with lights.ts
+const cluster_dims = vec3<u32>(16u, 9u, 24u);
+const max_cluster_lights = 63u;
 
 @group(0) @binding(5)
-var<uniform> punctual_lights: array<PunctualLight, light_num>;
+var<storage, read> punctual_lights: PunctualLights;
+
+struct LightShadow {
+    layer: i32, // -1: no shadow
+    cascade_count: u32,
+    bias: f32,
+    normal_bias: f32,
+    cascade_splits: vec4<f32>, // view space far distance of each cascade
+    uv_scale: f32,
+}
+
+struct Shadows {
+    lights: array<LightShadow, shadow_light_num>,
+    view_projections: array<mat4x4<f32>, 24>,
+}
+
+@group(0) @binding(6)
+var<uniform> shadows: Shadows;
+
+@group(0) @binding(7)
+var shadow_map: texture_depth_2d_array;
+
+@group(0) @binding(8)
+var shadow_sampler: sampler_comparison;
+
+@group(0) @binding(9)
+var<storage, read> light_clusters: array<u32>;
+
+struct Environment {
+    intensity: f32,
+    enabled: u32,
+    specular_max_lod: f32,
+}
+
+@group(0) @binding(10)
+var<uniform> environment: Environment;
+
+@group(0) @binding(11)
+var irradiance_map: texture_cube<f32>;
+
+@group(0) @binding(12)
+var specular_map: texture_cube<f32>;
+
+@group(0) @binding(13)
+var brdf_lut: texture_2d<f32>;
+
+@group(0) @binding(14)
+var environment_sampler: sampler;
+
+@group(0) @binding(15)
+var normal_texture: texture_2d<f32>;
+
+@group(0) @binding(16)
+var occlusion_texture: texture_2d<f32>;
+
+@group(0) @binding(17)
+var emissive_texture: texture_2d<f32>;
+
+@group(0) @binding(18)
+var metallic_roughness_sampler: sampler;
+
+@group(0) @binding(19)
+var normal_sampler: sampler;
+
+@group(0) @binding(20)
+var occlusion_sampler: sampler;
+
+@group(0) @binding(21)
+var emissive_sampler: sampler;
+
+// relative to the mesh, identity without skeleton
+@group(0) @binding(22)
+var<storage, read> joint_matrices: array<mat4x4<f32>>;
+
+@group(0) @binding(23)
+var<storage, read> morph_targets: MorphTargets;
+
+@group(0) @binding(24)
+var<storage, read> morph_weights: array<f32>;
+
+@group(0) @binding(25)
+var clearcoat_texture: texture_2d<f32>;
+
+@group(0) @binding(26)
+var clearcoat_normal_texture: texture_2d<f32>;
+
+@group(0) @binding(27)
+var sheen_texture: texture_2d<f32>;
+
+@group(0) @binding(28)
+var specular_texture: texture_2d<f32>;
+
+@group(0) @binding(29)
+var transmission_texture: texture_2d<f32>;
+
+@group(0) @binding(30)
+var clearcoat_sampler: sampler;
+
+@group(0) @binding(31)
+var clearcoat_normal_sampler: sampler;
+
+@group(0) @binding(32)
+var sheen_sampler: sampler;
+
+@group(0) @binding(33)
+var specular_sampler: sampler;
+
+@group(0) @binding(34)
+var transmission_sampler: sampler;
+
+// perturbed normal of the clearcoat layer, set by fs_main
+var<private> clearcoat_normal: vec3<f32>;
 
 @vertex
-fn vs_main(input: VertexInput) -> VertexOutput {
+fn vs_main(input: VertexInput, @builtin(vertex_index) vertex_index: u32) -> VertexOutput {
     var output: VertexOutput;
-    let world_position = (uniforms.model * vec4<f32>(input.POSITION, 1.0)).xyz;
+    let model = uniforms.model * skin_matrix(input.JOINTS_0, input.WEIGHTS_0);
+    let position = morph_position(vertex_index, input.POSITION);
+    let normal = morph_normal(vertex_index, input.NORMAL);
+    let tangent = morph_tangent(vertex_index, input.TANGENT.xyz);
+    let world_position = (model * vec4<f32>(position, 1.0)).xyz;
     let view_position = (uniforms.view * vec4<f32>(world_position, 1.0)).xyz;
     output.clip_position = uniforms.projection * vec4<f32>(view_position, 1.0);
     output.world_position = world_position;
-    output.world_normal = normalize((uniforms.model * vec4<f32>(input.NORMAL, 0.0)).xyz);
+    output.world_normal = normalize((model * vec4<f32>(normal, 0.0)).xyz);
     output.uv = input.TEXCOORD_0;
+    output.world_tangent = vec4<f32>((model * vec4<f32>(tangent, 0.0)).xyz, input.TANGENT.w);
+    output.color = input.COLOR_0;
     return output;
 }
 
+fn texture_uv(slot: u32, uv: vec2<f32>) -> vec2<f32> {
+    return (pbr_params.uv_transforms[slot] * vec3<f32>(uv, 1.0)).xy;
+}
+
+// color textures are sRGB encoded, factors are linear
+fn srgb_to_linear(color: vec3<f32>) -> vec3<f32> {
+    let low = color / 12.92;
+    let high = pow((color + 0.055) / 1.055, vec3<f32>(2.4));
+    return select(high, low, color <= vec3<f32>(0.04045));
+}
+
 fn get_pbr_values(uv: vec2<f32>) -> PBRParams {
     var result = pbr_params;
 
     if (pbr_params.use_textures & 1u) != 0u {
-        result.albedo = textureSample(albedo_texture, texture_sampler, uv).rgb;
+        let albedo = textureSample(albedo_texture, albedo_sampler, texture_uv(0u, uv));
+        result.albedo *= srgb_to_linear(albedo.rgb);
+        result.alpha *= albedo.a;
     }
 
     if (pbr_params.use_textures & 2u) != 0u {
-        let orm = textureSample(occlusion_roughness_metallic_texture, texture_sampler, uv);
-        result.metallic = orm.b;
-        result.roughness = orm.g;
-        result.ao = orm.r;
+        let orm = textureSample(occlusion_roughness_metallic_texture, metallic_roughness_sampler, texture_uv(1u, uv));
+        result.metallic *= orm.b;
+        result.roughness *= orm.g;
+        if (pbr_params.use_textures & 32u) != 0u {
+            result.ao = orm.r;
+        }
+    }
+
+    if (pbr_params.use_textures & 8u) != 0u {
+        let occlusion = textureSample(occlusion_texture, occlusion_sampler, texture_uv(3u, uv)).r;
+        result.ao = 1.0 + pbr_params.occlusion_strength * (occlusion - 1.0);
+    }
+
+    if (pbr_params.use_textures & 16u) != 0u {
+        result.emissive *= srgb_to_linear(textureSample(emissive_texture, emissive_sampler, texture_uv(4u, uv)).rgb);
+    }
+
+    // clearcoat in red, clearcoat roughness in green channel
+    if (pbr_params.use_textures & 192u) != 0u {
+        let clearcoat = textureSample(clearcoat_texture, clearcoat_sampler, texture_uv(5u, uv));
+        result.clearcoat *= select(1.0, clearcoat.r, (pbr_params.use_textures & 64u) != 0u);
+        result.clearcoat_roughness *= select(1.0, clearcoat.g, (pbr_params.use_textures & 128u) != 0u);
+    }
+
+    // sheen color in rgb, sheen roughness in alpha channel
+    if (pbr_params.use_textures & 1536u) != 0u {
+        let sheen = textureSample(sheen_texture, sheen_sampler, texture_uv(7u, uv));
+        result.sheen_color *= select(vec3<f32>(1.0), srgb_to_linear(sheen.rgb), (pbr_params.use_textures & 512u) != 0u);
+        result.sheen_roughness *= select(1.0, sheen.a, (pbr_params.use_textures & 1024u) != 0u);
+    }
+
+    // specular color in rgb, specular in alpha channel
+    if (pbr_params.use_textures & 6144u) != 0u {
+        let specular = textureSample(specular_texture, specular_sampler, texture_uv(8u, uv));
+        result.specular *= select(1.0, specular.a, (pbr_params.use_textures & 2048u) != 0u);
+        let specular_color = srgb_to_linear(specular.rgb);
+        result.specular_color *= select(vec3<f32>(1.0), specular_color, (pbr_params.use_textures & 4096u) != 0u);
+    }
+
+    if (pbr_params.use_textures & 8192u) != 0u {
+        result.transmission *= textureSample(transmission_texture, transmission_sampler, texture_uv(9u, uv)).r;
     }
 
     return result;
 }
 
+// tangent frame of the geometric normal facing the viewer, from screen space derivatives when TANGENT is missing
+fn get_tangent_frame(input: VertexOutput, front_facing: bool) -> mat3x3<f32> {
+    var N = normalize(input.world_normal);
+    if !front_facing {
+        N = -N;
+    }
+
+    let dp1 = dpdx(input.world_position);
+    let dp2 = dpdy(input.world_position);
+    let duv1 = dpdx(input.uv);
+    let duv2 = dpdy(input.uv);
+
+    var T: vec3<f32>;
+    var B: vec3<f32>;
+    if dot(input.world_tangent.xyz, input.world_tangent.xyz) > 0.0 {
+        T = normalize(input.world_tangent.xyz - N * dot(N, input.world_tangent.xyz));
+        B = cross(N, T) * select(input.world_tangent.w, -input.world_tangent.w, !front_facing);
+    } else {
+        let dp2perp = cross(dp2, N);
+        let dp1perp = cross(N, dp1);
+        T = dp2perp * duv1.x + dp1perp * duv2.x;
+        B = dp2perp * duv1.y + dp1perp * duv2.y;
+        let inv_max = inverseSqrt(max(dot(T, T), dot(B, B)));
+        T *= inv_max;
+        B *= inv_max;
+    }
+    return mat3x3<f32>(T, B, N);
+}
+
+// perturbed normal facing the viewer
+fn get_normal(input: VertexOutput, tbn: mat3x3<f32>) -> vec3<f32> {
+    if (pbr_params.use_textures & 4u) == 0u {
+        return tbn[2];
+    }
+    var n = textureSample(normal_texture, normal_sampler, texture_uv(2u, input.uv)).xyz * 2.0 - 1.0;
+    n = vec3<f32>(n.xy * pbr_params.normal_scale, n.z);
+    return normalize(tbn * n);
+}
+
+// clearcoat layer has its own normal map and ignores the base one
+fn get_clearcoat_normal(input: VertexOutput, tbn: mat3x3<f32>) -> vec3<f32> {
+    if (pbr_params.use_textures & 256u) == 0u {
+        return tbn[2];
+    }
+    var n = textureSample(clearcoat_normal_texture, clearcoat_normal_sampler, texture_uv(6u, input.uv)).xyz * 2.0 - 1.0;
+    n = vec3<f32>(n.xy * pbr_params.clearcoat_normal_scale, n.z);
+    return normalize(tbn * n);
+}
+
 
 const PI: f32 = 3.14159265359;
 
@@ -111,26 +380,41 @@ fn geometrySmith(NdotV: f32, NdotL: f32, roughness: f32) -> f32 {
     return ggx1 * ggx2;
 }
 
-fn calculatePointLight(light: PunctualLight, input: VertexOutput, pbr_values: PBRParams) -> vec3<f32> {
-    let distance = length(light.position - input.world_position);
+fn fresnelSchlick90(cosTheta: f32, F0: vec3<f32>, F90: f32) -> vec3<f32> {
+    return F0 + (F90 - F0) * pow(clamp(1.0 - cosTheta, 0.0, 1.0), 5.0);
+}
 
+// reflectance at normal incidence from ior, tinted & scaled by KHR_materials_specular for dielectrics
+fn get_f0(pbr_values: PBRParams) -> vec3<f32> {
+    let ior_f0 = pow((pbr_values.ior - 1.0) / (pbr_values.ior + 1.0), 2.0);
+    let dielectric = min(vec3<f32>(ior_f0) * pbr_values.specular_color, vec3<f32>(1.0)) * pbr_values.specular;
+    return mix(dielectric, pbr_values.albedo, pbr_values.metallic);
+}
 
-    let light_dir = normalize(light.position - input.world_position);
-    let view_dir = normalize(uniforms.camera_position - input.world_position);
+fn get_f90(pbr_values: PBRParams) -> f32 {
+    return mix(pbr_values.specular, 1.0, pbr_values.metallic);
+}
 
-    // Attenuation
-    let attenuation = clamp(1.0 - pow(distance / light.range, 4.), 0., 1.) / (distance * distance);
+fn distributionCharlie(NdotH: f32, roughness: f32) -> f32 {
+    let inv_alpha = 1.0 / max(roughness * roughness, 0.000001);
+    let sin2h = max(1.0 - NdotH * NdotH, 0.0078125);
+    return (2.0 + inv_alpha) * pow(sin2h, inv_alpha * 0.5) / (2.0 * PI);
+}
 
-    let radiance = light.color * light.intensity * attenuation;
+fn visibilityAshikhmin(NdotL: f32, NdotV: f32) -> f32 {
+    return clamp(1.0 / (4.0 * (NdotL + NdotV - NdotL * NdotV)), 0.0, 1.0);
+}
 
-    // Cook-Torrance BRDF
+// Cook-Torrance BRDF of base layer with sheen, covered by clearcoat
+fn shade(input: VertexOutput, pbr_values: PBRParams, light_dir: vec3<f32>, radiance: vec3<f32>) -> vec3<f32> {
+    let view_dir = normalize(uniforms.camera_position - input.world_position);
     let NdotV = max(dot(input.world_normal, view_dir), 0.0);
     let NdotL = max(dot(input.world_normal, light_dir), 0.0);
     let HalfDir = normalize(view_dir + light_dir);
     let NdotH = max(dot(input.world_normal, HalfDir), 0.0);
+    let VdotH = max(dot(HalfDir, view_dir), 0.0);
 
-    let F0 = mix(vec3<f32>(0.04), pbr_values.albedo, pbr_values.metallic);
-    let F = fresnelSchlick(max(dot(HalfDir, view_dir), 0.0), F0);
+    let F = fresnelSchlick90(VdotH, get_f0(pbr_values), get_f90(pbr_values));
     let D = distributionGGX(NdotH, pbr_values.roughness);
     let G = geometrySmith(NdotV, NdotL, pbr_values.roughness);
 
@@ -138,42 +422,52 @@ fn calculatePointLight(light: PunctualLight, input: VertexOutput, pbr_values: PB
     let denominator = 4.0 * NdotV * NdotL + 0.0001;
     let specular = numerator / denominator;
 
+    // transmitted light leaves through the back, see calculateEnvironment
     let kS = F;
-    let kD = (vec3<f32>(1.0) - kS) * (1.0 - pbr_values.metallic);
+    let kD = (vec3<f32>(1.0) - kS) * (1.0 - pbr_values.metallic) * (1.0 - pbr_values.transmission);
 
-    let diffuse = kD * pbr_values.albedo / 3.14159265359;
+    let diffuse = kD * pbr_values.albedo / PI;
 
-    return (diffuse + specular) * radiance * NdotL;
-}
+    // sheen without albedo scaling of the base
+    let sheen = pbr_values.sheen_color * distributionCharlie(NdotH, pbr_values.sheen_roughness) *
+        visibilityAshikhmin(NdotL, NdotV);
 
-fn calculateDirectionalLight(light: PunctualLight, input: VertexOutput, pbr_values: PBRParams) -> vec3<f32> {
-    let light_dir = normalize(-light.direction);
-    let view_dir = normalize(uniforms.camera_position - input.world_position);
+    let base = (diffuse + specular + sheen) * radiance * NdotL;
+    if pbr_values.clearcoat <= 0.0 {
+        return base;
+    }
 
-    // Radiance (no attenuation for directional light)
-    let radiance = light.color * light.intensity;
+    let CdotV = max(dot(clearcoat_normal, view_dir), 0.0);
+    let CdotL = max(dot(clearcoat_normal, light_dir), 0.0);
+    let CdotH = max(dot(clearcoat_normal, HalfDir), 0.0);
+    let Fc = fresnelSchlick(VdotH, vec3<f32>(0.04)) * pbr_values.clearcoat;
+    let Dc = distributionGGX(CdotH, pbr_values.clearcoat_roughness);
+    let Gc = geometrySmith(CdotV, CdotL, pbr_values.clearcoat_roughness);
+    let coat = Dc * Gc * Fc / (4.0 * CdotV * CdotL + 0.0001) * radiance * CdotL;
 
-    // Cook-Torrance BRDF
-    let NdotV = max(dot(input.world_normal, view_dir), 0.0);
-    let NdotL = max(dot(input.world_normal, light_dir), 0.0);
-    let HalfDir = normalize(view_dir + light_dir);
-    let NdotH = max(dot(input.world_normal, HalfDir), 0.0);
+    let attenuation = 1.0 - pbr_values.clearcoat * fresnelSchlick(CdotV, vec3<f32>(0.04));
+    return base * attenuation + coat;
+}
 
-    let F0 = mix(vec3<f32>(0.04), pbr_values.albedo, pbr_values.metallic);
-    let F = fresnelSchlick(max(dot(HalfDir, view_dir), 0.0), F0);
-    let D = distributionGGX(NdotH, pbr_values.roughness);
-    let G = geometrySmith(NdotV, NdotL, pbr_values.roughness);
+fn calculatePointLight(light: PunctualLight, input: VertexOutput, pbr_values: PBRParams) -> vec3<f32> {
+    let distance = length(light.position - input.world_position);
+    let light_dir = normalize(light.position - input.world_position);
 
-    let numerator = D * G * F;
-    let denominator = 4.0 * NdotV * NdotL + 0.0001;
-    let specular = numerator / denominator;
+    // Attenuation
+    let attenuation = clamp(1.0 - pow(distance / light.range, 4.), 0., 1.) / (distance * distance);
 
-    let kS = F;
-    let kD = (vec3<f32>(1.0) - kS) * (1.0 - pbr_values.metallic);
+    let radiance = light.color * light.intensity * attenuation;
 
-    let diffuse = kD * pbr_values.albedo / 3.14159265359;
+    return shade(input, pbr_values, light_dir, radiance);
+}
+
+fn calculateDirectionalLight(light: PunctualLight, input: VertexOutput, pbr_values: PBRParams) -> vec3<f32> {
+    let light_dir = normalize(-light.direction);
+
+    // Radiance (no attenuation for directional light)
+    let radiance = light.color * light.intensity;
 
-    return (diffuse + specular) * radiance * NdotL;
+    return shade(input, pbr_values, light_dir, radiance);
 }
 
 fn getSpotFactor(light: PunctualLight, light_dir: vec3<f32>) -> f32 {
@@ -193,7 +487,6 @@ fn calculateSpotLight(light: PunctualLight, input: VertexOutput, pbr_values: PBR
     if distance > light.range {
         return vec3(0.);
     }
-    let view_dir = normalize(uniforms.camera_position - input.world_position);
     let light_dir = normalize(light.position - input.world_position);
     // Attenuation
     let attenuation = clamp(1.0 - pow(distance / light.range, 4.), 0., 1.) / (distance * distance);
@@ -203,57 +496,181 @@ fn calculateSpotLight(light: PunctualLight, input: VertexOutput, pbr_values: PBR
 
     let radiance = light.color * light.intensity * attenuation * spot_factor;
 
-    // Cook-Torrance BRDF
-    let NdotV = max(dot(input.world_normal, view_dir), 0.0);
-    let NdotL = max(dot(input.world_normal, light_dir), 0.0);
-    let HalfDir = normalize(view_dir + light_dir);
-    let NdotH = max(dot(input.world_normal, HalfDir), 0.0);
+    return shade(input, pbr_values, light_dir, radiance);
+}
 
-    let F0 = mix(vec3<f32>(0.04), pbr_values.albedo, pbr_values.metallic);
-    let F = fresnelSchlick(max(dot(HalfDir, view_dir), 0.0), F0);
-    let D = distributionGGX(NdotH, pbr_values.roughness);
-    let G = geometrySmith(NdotV, NdotL, pbr_values.roughness);
+fn sample_shadow_layer(layer: i32, world_position: vec3<f32>, shadow: LightShadow) -> f32 {
+    let clip = shadows.view_projections[layer] * vec4<f32>(world_position, 1.0);
+    let ndc = clip.xyz / clip.w;
+    let uv = vec2<f32>(ndc.x * 0.5 + 0.5, 0.5 - ndc.y * 0.5);
+    if any(uv < vec2<f32>(0.0)) || any(uv > vec2<f32>(1.0)) || ndc.z > 1.0 {
+        return 1.0;
+    }
 
-    let numerator = D * G * F;
-    let denominator = 4.0 * NdotV * NdotL + 0.0001;
-    let specular = numerator / denominator;
+    // 3x3 PCF
+    let texel = 1.0 / vec2<f32>(textureDimensions(shadow_map));
+    let depth = ndc.z - shadow.bias;
+    var visibility = 0.0;
+    for (var x = -1; x <= 1; x++) {
+        for (var y = -1; y <= 1; y++) {
+            let offset = vec2<f32>(f32(x), f32(y)) * texel;
+            visibility += textureSampleCompareLevel(shadow_map, shadow_sampler, uv * shadow.uv_scale + offset, layer, depth);
+        }
+    }
+    return visibility / 9.0;
+}
 
-    let kS = F;
-    let kD = (vec3<f32>(1.0) - kS) * (1.0 - pbr_values.metallic);
+fn get_shadow(index: u32, light: PunctualLight, input: VertexOutput) -> f32 {
+    if uniforms.receive_shadow == 0u || index >= u32(shadow_light_num) {
+        return 1.0;
+    }
+    let shadow = shadows.lights[index];
+    if shadow.layer < 0 {
+        return 1.0;
+    }
+    let world_position = input.world_position + normalize(input.world_normal) * shadow.normal_bias;
+
+    var layer = shadow.layer;
+    if light.light_type == 1u {
+        // select cascade by view space depth
+        let depth = -(uniforms.view * vec4<f32>(input.world_position, 1.0)).z;
+        var cascade = 0u;
+        for (; cascade < shadow.cascade_count - 1u; cascade++) {
+            if depth < shadow.cascade_splits[cascade] {
+                break;
+            }
+        }
+        layer += i32(cascade);
+    } else if light.light_type == 2u {
+        // select cube face by major axis, order +X, -X, +Y, -Y, +Z, -Z
+        let dir = input.world_position - light.position;
+        let a = abs(dir);
+        if a.x >= a.y && a.x >= a.z {
+            layer += select(1, 0, dir.x > 0.0);
+        } else if a.y >= a.z {
+            layer += select(3, 2, dir.y > 0.0);
+        } else {
+            layer += select(5, 4, dir.z > 0.0);
+        }
+    }
+    return sample_shadow_layer(layer, world_position, shadow);
+}
+
+fn calculateLight(index: u32, input: VertexOutput, pbr_values: PBRParams) -> vec3<f32> {
+    let light = punctual_lights.lights[index];
+
+    if light.light_type == 1u {
+        return calculateDirectionalLight(light, input, pbr_values) * get_shadow(index, light, input);
+    } else if light.light_type == 2u {
+        return calculatePointLight(light, input, pbr_values) * get_shadow(index, light, input);
+    } else if light.light_type == 3u {
+        return calculateSpotLight(light, input, pbr_values) * get_shadow(index, light, input);
+    }
+    return vec3<f32>(0.0);
+}
 
-    let diffuse = kD * pbr_values.albedo / 3.14159265359;
+// offset of the cluster containing this fragment in light_clusters, see light_cluster.wgsl
+fn get_cluster_offset(input: VertexOutput) -> u32 {
+    let near = punctual_lights.near;
+    let far = punctual_lights.far;
+    let depth = -(uniforms.view * vec4<f32>(input.world_position, 1.0)).z;
+    let slice = clamp(floor(log(depth / near) / log(far / near) * f32(cluster_dims.z)), 0.0, f32(cluster_dims.z - 1u));
+    let tile = min(
+        vec2<u32>(input.clip_position.xy / punctual_lights.screen_size * vec2<f32>(cluster_dims.xy)),
+        cluster_dims.xy - 1u
+    );
+    let index = tile.x + tile.y * cluster_dims.x + u32(slice) * cluster_dims.x * cluster_dims.y;
+    return index * (max_cluster_lights + 1u);
+}
 
-    // return vec3(spot_factor);
-    return (diffuse + specular) * radiance * NdotL;
+fn fresnelSchlickRoughness(cosTheta: f32, F0: vec3<f32>, roughness: f32) -> vec3<f32> {
+    return F0 + (max(vec3<f32>(1.0 - roughness), F0) - F0) * pow(clamp(1.0 - cosTheta, 0.0, 1.0), 5.0);
+}
+
+// split sum image based lighting
+fn calculateEnvironment(input: VertexOutput, pbr_values: PBRParams) -> vec3<f32> {
+    let N = normalize(input.world_normal);
+    let V = normalize(uniforms.camera_position - input.world_position);
+    let R = reflect(-V, N);
+    let NdotV = max(dot(N, V), 0.0);
+
+    let F0 = get_f0(pbr_values);
+    let F = mix(F0, fresnelSchlickRoughness(NdotV, F0, pbr_values.roughness), get_f90(pbr_values));
+    let kD = (vec3<f32>(1.0) - F) * (1.0 - pbr_values.metallic);
+
+    let irradiance = textureSampleLevel(irradiance_map, environment_sampler, N, 0.0).rgb;
+    var diffuse = irradiance * pbr_values.albedo;
+    if pbr_values.transmission > 0.0 {
+        // thin walled refraction of the environment, the scene behind is not visible
+        let T = refract(-V, N, 1.0 / pbr_values.ior);
+        let lod = pbr_values.roughness * environment.specular_max_lod;
+        let transmitted = textureSampleLevel(specular_map, environment_sampler, T, lod).rgb * pbr_values.albedo;
+        diffuse = mix(diffuse, transmitted, pbr_values.transmission);
+    }
+
+    let lod = pbr_values.roughness * environment.specular_max_lod;
+    let prefiltered = textureSampleLevel(specular_map, environment_sampler, R, lod).rgb;
+    let brdf = textureSampleLevel(brdf_lut, environment_sampler, vec2<f32>(NdotV, pbr_values.roughness), 0.0).rg;
+    let specular = prefiltered * (F * brdf.x + brdf.y);
+
+    var color = kD * diffuse + specular;
+    if pbr_values.clearcoat > 0.0 {
+        let C = normalize(clearcoat_normal);
+        let CdotV = max(dot(C, V), 0.0);
+        let coat_lod = pbr_values.clearcoat_roughness * environment.specular_max_lod;
+        let coat_prefiltered = textureSampleLevel(specular_map, environment_sampler, reflect(-V, C), coat_lod).rgb;
+        let coat_brdf = textureSampleLevel(
+            brdf_lut,
+            environment_sampler,
+            vec2<f32>(CdotV, pbr_values.clearcoat_roughness),
+            0.0
+        ).rg;
+        let Fc = fresnelSchlickRoughness(CdotV, vec3<f32>(0.04), pbr_values.clearcoat_roughness);
+        let coat = coat_prefiltered * (Fc * coat_brdf.x + coat_brdf.y) * pbr_values.clearcoat;
+        color = color * (1.0 - pbr_values.clearcoat * fresnelSchlick(CdotV, vec3<f32>(0.04))) + coat;
+    }
+
+    return color * pbr_values.ao * environment.intensity;
 }
 
 @fragment
-fn fs_main(input: VertexOutput) -> @location(0) vec4<f32> {
+fn fs_main(vertex_output: VertexOutput, @builtin(front_facing) front_facing: bool) -> @location(0) vec4<f32> {
 
-    let pbr_values = get_pbr_values(input.uv);
+    var pbr_values = get_pbr_values(vertex_output.uv);
+    pbr_values.albedo *= vertex_output.color.rgb;
+    pbr_values.alpha *= vertex_output.color.a;
+    if pbr_params.alpha_mode == 1u && pbr_values.alpha < pbr_params.alpha_cutoff {
+        discard;
+    }
 
-    var Lo = vec3<f32>(0.0);
+    var input = vertex_output;
+    let tbn = get_tangent_frame(vertex_output, front_facing);
+    input.world_normal = get_normal(vertex_output, tbn);
+    clearcoat_normal = get_clearcoat_normal(vertex_output, tbn);
 
-    for (var i = 0; i < light_num; i++) {
-        let light = punctual_lights[i];
+    var Lo = vec3<f32>(0.0);
 
-        if light.light_type == 1u {
-            Lo += calculateDirectionalLight(light, input, pbr_values);
-        } else if light.light_type == 2u {
-            Lo += calculatePointLight(light, input, pbr_values);
-        } else if light.light_type == 3u {
-            Lo += calculateSpotLight(light, input, pbr_values);
+    if punctual_lights.cluster_enabled != 0u {
+        let cluster = get_cluster_offset(input);
+        let count = light_clusters[cluster];
+        for (var i = 0u; i < count; i++) {
+            Lo += calculateLight(light_clusters[cluster + 1u + i], input, pbr_values);
+        }
+    } else {
+        for (var i = 0u; i < punctual_lights.count; i++) {
+            Lo += calculateLight(i, input, pbr_values);
         }
     }
 
     // return vec4(Lo, 1.0);
-    let ambient = vec3<f32>(0.03) * pbr_values.albedo * pbr_values.ao;
-    let color = ambient + Lo;
+    var ambient = vec3<f32>(0.03) * pbr_values.albedo * pbr_values.ao;
+    if environment.enabled != 0u {
+        ambient = calculateEnvironment(input, pbr_values);
+    }
+    let color = ambient + Lo + pbr_values.emissive;
 
-    // Tone mapping
-    let mapped = color / (color + vec3<f32>(1.0));
-    // Gamma correction
-    let corrected = pow(mapped, vec3<f32>(1.0 / 2.2));
+    // tone_mapping & linear_to_output are injected according to scene settings
+    let corrected = linear_to_output(tone_mapping(color));
 
-    return vec4<f32>(corrected, 1.0);
+    return vec4<f32>(corrected, select(1.0, pbr_values.alpha, pbr_params.alpha_mode == 2u));
 }
\ No newline at end of file
@@ -1,32 +1,41 @@
 import { Mat3, Mat4, Vec3 } from 'math'
-import { createEffect, createSignal, JSX, onCleanup, untrack } from 'solid-js'
+import { createEffect, JSX, onCleanup, untrack } from 'solid-js'
 import { createStore, produce } from 'solid-js/store'
 
 import {
   MaterialContextProvider,
   useMaterialContext,
   useMeshContext,
+  SceneContext,
   useObject3DContext,
   useSceneContext
 } from '../context'
+import { writeCompressedTexture } from '../compressed_texture'
+import { extent3D, generateMipmaps, mipLevelCount } from '../mipmap'
 import { createNodeContext } from '../object3d'
 import {
   CameraContext,
+  CompressedTextureImage,
+  GeometryContext,
   MaterialContext,
   MaterialExtra,
+  MaterialModel,
+  MeshContext,
   NodeProps,
   NodeRef,
   Optional,
-  PunctualLightContext,
   SamplerContext,
   SamplerExtra,
+  SkeletonContext,
   TextureContext,
   TextureExtra,
+  TextureImage,
+  TextureSource,
   TypedArray,
   UniformBufferContext,
   UniformBufferExtra
 } from '../types'
-import { createBuffer, imageBitmapFromImageUrl, white1pxBase64 } from '../utils'
+import { createBufferValue, getStoragePlaceholder, syncBufferValue } from '../utils'
 
 export type MaterialRef = NodeRef<MaterialContext>
 export type MaterialProps = NodeProps<MaterialContext> & {
@@ -37,13 +46,39 @@ export type MaterialProps = NodeProps<MaterialContext> & {
   depthTest?: boolean
   depthWrite?: boolean
   blending?: GPUBlendState
+  /**
+   * set by built-in materials
+   */
+  model?: MaterialModel
 }
 
 const builtInBufferLength = {
-  base: 80,
-  punctual_lights: 16 * 4
+  base: 80
 } as const
 
+/**
+ * built-in buffers owned by the scene instead of the uniform buffer node
+ */
+const sceneBuffers = {
+  punctual_lights: (scene: SceneContext) => scene.lights.buffer,
+  light_clusters: (scene: SceneContext) => scene.lights.clusterBuffer,
+  environment: (scene: SceneContext) => scene.environment.buffer,
+  shadows: (scene: SceneContext) => scene.shadow.buffer
+}
+/**
+ * built-in buffers owned by the mesh or its skeleton & geometry, a placeholder is bound without them
+ */
+const meshBuffers = {
+  joints: (mesh: MeshContext, scene: SceneContext) =>
+    mesh.skeleton ? (scene.nodes[mesh.skeleton] as SkeletonContext).buffer : undefined,
+  morph_targets: (mesh: MeshContext, scene: SceneContext) =>
+    mesh.geometry ? (scene.nodes[mesh.geometry] as GeometryContext).morphBuffer : undefined,
+  morph_weights: (mesh: MeshContext) => mesh.morphWeightsBuffer
+}
+const storageBuiltIns: string[] = ['punctual_lights', 'light_clusters', ...Object.keys(meshBuffers)]
+
+export type BuiltInBufferType = keyof typeof builtInBufferLength | keyof typeof sceneBuffers | keyof typeof meshBuffers
+
 export const Material = (props: MaterialProps) => {
   const {
     store: _s,
@@ -51,6 +86,7 @@ export const Material = (props: MaterialProps) => {
     Provider
   } = createNodeContext(['Material'], props, {
     uniforms: [],
+    model: () => props.model,
     shaderCode: '',
     cullMode: 'back',
     transparent: false,
@@ -73,6 +109,7 @@ export const Material = (props: MaterialProps) => {
   createEffect(() => setStore('transparent', props.transparent ?? false))
   createEffect(() => setStore('depthTest', props.depthTest ?? true))
   createEffect(() => setStore('depthWrite', props.depthWrite ?? true))
+  createEffect(() => setStore('blending', props.blending))
 
   const [sceneContext] = useSceneContext()
 
@@ -81,22 +118,23 @@ export const Material = (props: MaterialProps) => {
     const layoutEntries = store.uniforms.map((_u, i): GPUBindGroupLayoutEntry => {
       const u = scene.nodes[_u]
       if (u.type.includes('Texture')) {
+        const t = u as TextureContext
         return {
           binding: i,
           visibility: GPUShaderStage.FRAGMENT,
-          texture: {}
+          texture: { sampleType: t.sampleType ?? 'float', viewDimension: t.viewDimension ?? '2d' }
         }
       } else if (u.type.includes('Sampler')) {
         return {
           binding: i,
           visibility: GPUShaderStage.FRAGMENT,
-          sampler: {}
+          sampler: { type: (u as SamplerContext).descriptor.compare ? 'comparison' : 'filtering' }
         }
       } else {
         return {
           binding: i,
           visibility: GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT,
-          buffer: {}
+          buffer: { type: (u as UniformBufferContext).bufferType ?? 'uniform' }
         }
       }
     })
@@ -109,13 +147,13 @@ export const Material = (props: MaterialProps) => {
     const bindGroupEntries = store.uniforms.map((_u, i): GPUBindGroupEntry | undefined => {
       const u = scene.nodes[_u]
       if (u.type.includes('Texture')) {
-        const t = (u as TextureContext).texture
+        const { texture: t, viewDimension } = u as TextureContext
         if (!t) {
           return
         }
         return {
           binding: i,
-          resource: t && 'createView' in t ? t.createView() : t
+          resource: t && 'createView' in t ? t.createView({ dimension: viewDimension }) : t
         }
       } else if (u.type.includes('Sampler')) {
         const s = (u as SamplerContext).sampler
@@ -160,11 +198,21 @@ export const Material = (props: MaterialProps) => {
 export type TextureRef = NodeRef<TextureContext>
 export type TextureProps = NodeProps<TextureContext> & {
   descriptor: Optional<GPUTextureDescriptor, 'usage' | 'format'>
-  image?: ImageBitmap | ImageData | HTMLCanvasElement | OffscreenCanvas
+  image?: TextureImage | TextureImage[]
+  /**
+   * pre-mipmapped levels, replaces `image` and `generateMipmaps`
+   */
+  compressed?: CompressedTextureImage
+  generateMipmaps?: boolean
+  /**
+   * view bound to the material, `cube` or `2d-array` for layered textures
+   */
+  viewDimension?: GPUTextureViewDimension
 }
 export const Texture = (props: TextureProps) => {
   const { store: _s, setStore: _setS } = createNodeContext(['Texture'], props, {
-    descriptor: untrack(() => props.descriptor)
+    descriptor: untrack(() => props.descriptor),
+    viewDimension: untrack(() => props.viewDimension)
   } satisfies TextureExtra)
   const [scene] = useSceneContext()
   const id = _s.id
@@ -173,6 +221,9 @@ export const Texture = (props: TextureProps) => {
 
   createEffect(() => setStore('descriptor', props.descriptor))
   createEffect(() => setStore('image', props.image))
+  createEffect(() => setStore('compressed', props.compressed))
+  createEffect(() => setStore('generateMipmaps', props.generateMipmaps ?? false))
+  createEffect(() => setStore('viewDimension', props.viewDimension))
 
   props.ref?.(store)
 
@@ -184,19 +235,43 @@ export const Texture = (props: TextureProps) => {
   // sync texture
   createEffect(() => {
     const { device, format } = sceneContext
+    const { descriptor, generateMipmaps: mipmaps, compressed } = store
+    if (compressed) {
+      // block compressed formats can't be rendered to
+      const target = device.createTexture({
+        ...descriptor,
+        size: [compressed.width, compressed.height],
+        format: compressed.format,
+        mipLevelCount: compressed.levels.length,
+        usage: (descriptor.usage ?? 0) | GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST
+      })
+      writeCompressedTexture(device, target, compressed)
+      setStore('texture', target)
+      onCleanup(() => target.destroy())
+      return
+    }
+    const [width, height] = extent3D(descriptor.size)
 
     const target = device.createTexture({
-      ...store.descriptor,
-      format: store.descriptor.format ?? format,
+      ...descriptor,
+      format: descriptor.format ?? format,
+      mipLevelCount: mipmaps ? mipLevelCount(width, height) : descriptor.mipLevelCount,
       usage:
-        (store.descriptor.usage ?? 0) |
+        (descriptor.usage ?? 0) |
         GPUTextureUsage.TEXTURE_BINDING |
         GPUTextureUsage.RENDER_ATTACHMENT |
         GPUTextureUsage.COPY_SRC |
         GPUTextureUsage.COPY_DST
     })
-    if (store.image) {
-      device.queue.copyExternalImageToTexture({ source: store.image }, { texture: target }, store.descriptor.size)
+    const images = store.image ? [store.image].flat() : []
+    images.forEach((image, i) =>
+      device.queue.copyExternalImageToTexture({ source: image }, { texture: target, origin: [0, 0, i] }, [
+        image.width,
+        image.height
+      ])
+    )
+    if (mipmaps && images.length) {
+      generateMipmaps(device, target)
     }
     setStore('texture', target)
 
@@ -206,6 +281,56 @@ export const Texture = (props: TextureProps) => {
   return null
 }
 
+/**
+ * depth texture array of the scene's shadow map, sample with a comparison `Sampler`
+ */
+export const ShadowMap = () => {
+  const { store: _s, setStore: _setS } = createNodeContext(['Texture'], {}, {
+    descriptor: { size: [1, 1] },
+    sampleType: 'depth',
+    viewDimension: '2d-array'
+  } satisfies TextureExtra)
+  const [scene] = useSceneContext()
+  const id = _s.id
+
+  const [store, setStore] = createStore(scene.nodes[id] as TextureContext)
+
+  const [m, setM] = useMaterialContext()
+  setM('uniforms', v => v.concat(id))
+
+  createEffect(() => setStore('texture', scene.shadow.map))
+
+  return null
+}
+
+export type EnvironmentMapProps = {
+  type: 'irradiance' | 'specular' | 'brdfLut'
+}
+/**
+ * texture of the scene's `Environment`, a placeholder is bound without one
+ */
+export const EnvironmentMap = (props: EnvironmentMapProps) => {
+  const { store: _s, setStore: _setS } = createNodeContext(['Texture'], {}, {
+    descriptor: { size: [1, 1] },
+    viewDimension: untrack(() => props.type) === 'brdfLut' ? '2d' : 'cube'
+  } satisfies TextureExtra)
+  const [scene] = useSceneContext()
+  const id = _s.id
+
+  const [store, setStore] = createStore(scene.nodes[id] as TextureContext)
+
+  const [m, setM] = useMaterialContext()
+  setM('uniforms', v => v.concat(id))
+
+  createEffect(() => {
+    const { environment } = scene
+    const placeholder = props.type === 'brdfLut' ? environment.placeholderLut : environment.placeholderCube
+    setStore('texture', environment[props.type] ?? placeholder)
+  })
+
+  return null
+}
+
 export type SamplerRef = NodeRef<SamplerContext>
 export type SamplerProps = NodeProps<SamplerContext> & {
   descriptor: GPUSamplerDescriptor
@@ -243,24 +368,31 @@ export type UniformBufferProps = NodeProps<UniformBufferContext> &
     | {
         value: TypedArray | ArrayBuffer
       }
-    | { buildInType: 'base' | 'punctual_lights' }
+    /**
+     * `punctual_lights`, `light_clusters`, `shadows` and `environment` bind buffers shared by the scene,
+     * `joints`, `morph_targets` and `morph_weights` bind skinning & morphing buffers of the mesh
+     */
+    | { buildInType: BuiltInBufferType }
   )
 export const UniformBuffer = (props: UniformBufferProps) => {
+  const val = createBufferValue<TypedArray | ArrayBuffer>(
+    untrack(() =>
+      'value' in props ? props.value : new Float32Array(props.buildInType === 'base' ? builtInBufferLength.base : 0)
+    )
+  )
   const initial = untrack(() => {
     if ('value' in props) {
-      const val = createSignal(props.value, { equals: false })
       return {
-        value: val[0],
-        setValue: val[1]
+        value: val.value,
+        setValue: val.setValue
       }
     } else {
-      const val = createSignal<TypedArray | ArrayBuffer>(new Float32Array(builtInBufferLength[props.buildInType]), {
-        equals: false
-      })
+      const type = props.buildInType
       return {
-        builtIn: props.buildInType,
-        value: val[0],
-        setValue: val[1]
+        builtIn: type,
+        bufferType: storageBuiltIns.includes(type) ? ('read-only-storage' as const) : undefined,
+        value: val.value,
+        setValue: val.setValue
       }
     }
   }) satisfies UniformBufferExtra
@@ -282,12 +414,14 @@ export const UniformBuffer = (props: UniformBufferProps) => {
   createEffect(() => {
     if ('buildInType' in props) {
       setStore('builtIn', props.buildInType)
+      setStore('bufferType', storageBuiltIns.includes(props.buildInType) ? 'read-only-storage' : undefined)
     } else {
       store.setValue(props.value)
     }
   })
 
   const [o3d] = useObject3DContext()
+  const [mesh] = useMeshContext()
 
   /**
    * update built-in uniform buffer
@@ -317,49 +451,12 @@ export const UniformBuffer = (props: UniformBufferProps) => {
         Mat3.normalFromMat4(bo.subarray(64, 73), modelViewMatrix)
         // cameraPosition
         Vec3.copy(bo.subarray(76, 79), camera.matrix().subarray(12, 15))
+        // receiveShadow
+        new DataView(bo.buffer, bo.byteOffset).setUint32(79 * 4, mesh.receiveShadow ? 1 : 0, true)
 
         return bo
       })
       // setStore('value', bo)
-    } else if (store.builtIn === 'punctual_lights') {
-      store.setValue(v => {
-        const lightValues =
-          'length' in v && v.length === builtInBufferLength.punctual_lights
-            ? (v as Float32Array)
-            : new Float32Array(builtInBufferLength.punctual_lights)
-
-        const { lightList } = scene
-        for (let i = 0; i < lightList.length; i++) {
-          const lightID = lightList[i]
-          const light = scene.nodes[lightID] as PunctualLightContext
-
-          const offset = i * 16
-          if (lightValues.length < offset + 16) {
-            console.warn('extra lights are ignored')
-            break
-          }
-          // position
-          Vec3.copy(lightValues.subarray(offset + 0, offset + 3), light.matrix().subarray(12, 15))
-          // direction
-          Vec3.copy(lightValues.subarray(offset + 4, offset + 7), light.matrix().subarray(8, 11))
-          Vec3.copy(lightValues.subarray(offset + 8, offset + 11), light.color())
-
-          lightValues[offset + 11] = light.intensity
-          lightValues[offset + 12] = light.range ?? Infinity
-          lightValues[offset + 13] = light.innerConeAngle
-          lightValues[offset + 14] = light.outerConeAngle
-
-          const m: Record<typeof light.lightType, number> = {
-            directional: 1,
-            point: 2,
-            spot: 3
-          }
-
-          new DataView(lightValues.buffer).setUint32((offset + 15) * 4, m[light.lightType], true)
-        }
-
-        return lightValues
-      })
     }
   })
 
@@ -372,34 +469,83 @@ export const UniformBuffer = (props: UniformBufferProps) => {
 
   // sync uniformBuffer
   createEffect(() => {
-    const { device } = sceneContext
-    const data = store.value
-    const buffer = createBuffer({
-      device,
-      data: data(),
+    if (store.builtIn && store.builtIn in sceneBuffers) {
+      setStore('buffer', sceneBuffers[store.builtIn as keyof typeof sceneBuffers](sceneContext))
+      return
+    }
+    if (store.builtIn && store.builtIn in meshBuffers) {
+      const buffer = meshBuffers[store.builtIn as keyof typeof meshBuffers](mesh, sceneContext)
+      setStore('buffer', buffer ?? getStoragePlaceholder(sceneContext.device))
+      return
+    }
+    syncBufferValue({
+      device: sceneContext.device,
+      value: val,
       usage: GPUBufferUsage.UNIFORM,
-      label: `uniform buffer ${_s.id} ${_s.label}`
+      label: `uniform buffer ${_s.id} ${_s.label}`,
+      setBuffer: v => setStore('buffer', v),
+      invalidate: sceneContext.invalidate
     })
-
-    setStore('buffer', buffer)
-
-    onCleanup(() => buffer.destroy())
   })
 
   return null
 }
 
-const defaultBitmap = await imageBitmapFromImageUrl(white1pxBase64)
+export const defaultSamplerDescriptor: GPUSamplerDescriptor = {
+  magFilter: 'linear',
+  minFilter: 'linear',
+  mipmapFilter: 'linear',
+  addressModeU: 'repeat',
+  addressModeV: 'repeat'
+}
+
+/**
+ * texture of a `TextureSource` with full mip chain, white pixel without source,
+ * compressed images bring their own levels
+ */
+export const MaterialTexture = (props: { source?: TextureSource }) => {
+  const image = () => (props.source && 'image' in props.source ? props.source.image : props.source)
+  return (
+    <>
+      {(() => {
+        const v = image()
+        if (!v) {
+          return <DefaultTexture />
+        }
+        if ('levels' in v) {
+          return <Texture descriptor={{ size: [v.width, v.height] }} compressed={v} />
+        }
+        return <Texture descriptor={{ size: { width: v.width, height: v.height } }} image={v} generateMipmaps />
+      })()}
+    </>
+  )
+}
+
+/**
+ * sampler of a `TextureSource`
+ */
+export const MaterialSampler = (props: { source?: TextureSource }) => {
+  return (
+    <Sampler
+      descriptor={
+        (props.source && 'image' in props.source ? props.source.sampler : undefined) ?? defaultSamplerDescriptor
+      }
+    />
+  )
+}
+
+let defaultImage: ImageData | undefined
 export const DefaultTexture = () => {
+  defaultImage ??= new ImageData(new Uint8ClampedArray([255, 255, 255, 255]), 1, 1)
   return (
     <Texture
       descriptor={{
         size: {
-          width: defaultBitmap.width,
-          height: defaultBitmap.height
+          width: defaultImage.width,
+          height: defaultImage.height
         }
       }}
-      image={defaultBitmap}
+      image={defaultImage}
     />
   )
 }
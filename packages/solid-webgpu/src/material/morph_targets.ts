@@ -0,0 +1,36 @@
+import { usesBuiltin } from './color_management'
+
+const attributes = [
+  ['morph_position', 'position'],
+  ['morph_normal', 'normal'],
+  ['morph_tangent', 'tangent']
+] as const
+
+const morphedCode = (name: string, field: string) => /* wgsl */ `
+fn ${name}(vertex_index: u32, value: vec3<f32>) -> vec3<f32> {
+    var result = value;
+    let count = min(morph_targets.target_count, arrayLength(&morph_weights));
+    for (var i = 0u; i < count; i++) {
+        let delta = morph_targets.deltas[i * morph_targets.vertex_count + vertex_index];
+        result += delta.${field} * morph_weights[i];
+    }
+    return result;
+}`
+
+const staticCode = (name: string) => /* wgsl */ `
+fn ${name}(vertex_index: u32, value: vec3<f32>) -> vec3<f32> {
+    return value;
+}`
+
+/**
+ * append built-in `morph_position`, `morph_normal` & `morph_tangent` if shader calls them without own definition,
+ * morphed variant adds deltas of `morph_targets` weighted by `morph_weights` declared by shader
+ */
+export const withMorphTargets = (code: string, morphed: boolean) => {
+  for (const [name, field] of attributes) {
+    if (usesBuiltin(code, name)) {
+      code += '\n' + (morphed ? morphedCode(name, field) : staticCode(name))
+    }
+  }
+  return code
+}
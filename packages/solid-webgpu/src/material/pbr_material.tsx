@@ -1,73 +1,287 @@
 import { Vec3, Vec3Like } from 'math'
-import { createEffect } from 'solid-js'
+import { createEffect, createMemo } from 'solid-js'
+import { TextureSource } from '../types'
 import { setBitOfValue } from '../utils'
 import shaderCode from './default_pbr.wgsl?raw'
-import { DefaultTexture, Material, Sampler, Texture, UniformBuffer } from './material'
+import {
+  EnvironmentMap,
+  Material,
+  MaterialSampler,
+  MaterialTexture,
+  Sampler,
+  ShadowMap,
+  UniformBuffer,
+  UniformBufferRef
+} from './material'
+
+export type AlphaMode = 'OPAQUE' | 'MASK' | 'BLEND'
 
 export type PBRMaterialProps = {
   albedo?: Vec3Like
+  /**
+   * factors multiply the matching texture channel
+   */
   metallic?: number
   roughness?: number
   occlusion?: number
-  albedoTexture?: ImageBitmap
-  occlusionRoughnessMetallicTexture?: ImageBitmap
+  alpha?: number
+  emissive?: Vec3Like
+  /**
+   * alpha of albedo texture is used as well
+   */
+  albedoTexture?: TextureSource
+  /**
+   * occlusion in red, roughness in green, metallic in blue channel
+   */
+  occlusionRoughnessMetallicTexture?: TextureSource
+  /**
+   * roughness in green, metallic in blue channel
+   */
+  metallicRoughnessTexture?: TextureSource
+  /**
+   * tangent space normal map, tangents are derived from screen space derivatives without TANGENT attribute
+   */
+  normalTexture?: TextureSource
+  normalScale?: number
+  /**
+   * occlusion in red channel
+   */
+  occlusionTexture?: TextureSource
+  occlusionStrength?: number
+  emissiveTexture?: TextureSource
+  /**
+   * `MASK` discards fragments below `alphaCutoff`, `BLEND` renders as transparent without depth write
+   */
+  alphaMode?: AlphaMode
+  alphaCutoff?: number
+  doubleSided?: boolean
+  /**
+   * multiplies `emissive`, for HDR emission above 1
+   */
+  emissiveStrength?: number
+  /**
+   * index of refraction, sets reflectance of dielectrics and bends transmitted light
+   */
+  ior?: number
+  /**
+   * strength & color of dielectric specular reflection
+   */
+  specular?: number
+  specularColor?: Vec3Like
+  /**
+   * specular in alpha channel, shares its texture binding with `specularColorTexture`
+   */
+  specularTexture?: TextureSource
+  /**
+   * specular color in rgb channels
+   */
+  specularColorTexture?: TextureSource
+  /**
+   * retro reflective layer of cloth like materials, only lit by punctual lights
+   */
+  sheenColor?: Vec3Like
+  sheenRoughness?: number
+  /**
+   * sheen color in rgb channels, shares its texture binding with `sheenRoughnessTexture`
+   */
+  sheenColorTexture?: TextureSource
+  /**
+   * sheen roughness in alpha channel
+   */
+  sheenRoughnessTexture?: TextureSource
+  /**
+   * strength of a glossy dielectric layer on top of the material
+   */
+  clearcoat?: number
+  clearcoatRoughness?: number
+  /**
+   * clearcoat in red channel, shares its texture binding with `clearcoatRoughnessTexture`
+   */
+  clearcoatTexture?: TextureSource
+  /**
+   * clearcoat roughness in green channel
+   */
+  clearcoatRoughnessTexture?: TextureSource
+  /**
+   * tangent space normal map of the clearcoat layer, the base normal map does not affect it
+   */
+  clearcoatNormalTexture?: TextureSource
+  clearcoatNormalScale?: number
+  /**
+   * fraction of light passing through the surface instead of being diffused,
+   * refracts the environment map only, objects behind stay invisible
+   */
+  transmission?: number
+  /**
+   * transmission in red channel
+   */
+  transmissionTexture?: TextureSource
+}
+
+const alphaModes: Record<AlphaMode, number> = {
+  OPAQUE: 0,
+  MASK: 1,
+  BLEND: 2
+}
+
+/**
+ * index of each texture in `uv_transforms` of `PBRParams`
+ */
+const textureSlots = {
+  albedo: 0,
+  occlusionRoughnessMetallic: 1,
+  normal: 2,
+  occlusion: 3,
+  emissive: 4,
+  clearcoat: 5,
+  clearcoatNormal: 6,
+  sheen: 7,
+  specular: 8,
+  transmission: 9
+}
+
+/**
+ * write translation * rotation * scale of `source` into a column major mat3x3 with vec4 aligned columns
+ */
+const writeTextureTransform = (buffer: ArrayBuffer, slot: number, source?: TextureSource) => {
+  const transform = source && 'image' in source ? source.transform : undefined
+  const [x, y] = transform?.offset ?? [0, 0]
+  const [sx, sy] = transform?.scale ?? [1, 1]
+  const cos = Math.cos(transform?.rotation ?? 0)
+  const sin = Math.sin(transform?.rotation ?? 0)
+  new Float32Array(buffer, 112 + slot * 48, 12).set([cos * sx, -sin * sx, 0, 0, sin * sy, cos * sy, 0, 0, x, y, 1, 0])
+}
+
+/**
+ * two textures sampled through one binding, they need to be the same image
+ */
+const sharedTexture = (name: string, a?: TextureSource, b?: TextureSource) => {
+  if (a && b && a !== b) {
+    console.warn(`${name} textures differ, only the first one is used`)
+  }
+  return a ?? b
 }
 
 export const PBRMaterial = (props: PBRMaterialProps) => {
-  const _pbrBuffer = new ArrayBuffer(32)
+  const mrTexture = () => props.occlusionRoughnessMetallicTexture ?? props.metallicRoughnessTexture
+  const clearcoatTexture = createMemo(() =>
+    sharedTexture('clearcoat & clearcoat roughness', props.clearcoatTexture, props.clearcoatRoughnessTexture)
+  )
+  const sheenTexture = createMemo(() =>
+    sharedTexture('sheen color & sheen roughness', props.sheenColorTexture, props.sheenRoughnessTexture)
+  )
+  const specularTexture = createMemo(() =>
+    sharedTexture('specular & specular color', props.specularTexture, props.specularColorTexture)
+  )
+  const _pbrBuffer = new ArrayBuffer(592)
+  let uniform: UniformBufferRef | undefined
   createEffect(() => {
     new Vec3(_pbrBuffer).copy(props?.albedo ?? Vec3.fromValues(1, 1, 1))
     const pbrParamsValue = new Float32Array(_pbrBuffer, 12, 3)
-    pbrParamsValue[0] = props?.metallic ?? 0
-    pbrParamsValue[1] = props?.roughness ?? 0.5
+    pbrParamsValue[0] = props?.metallic ?? (mrTexture() ? 1 : 0)
+    pbrParamsValue[1] = props?.roughness ?? (mrTexture() ? 1 : 0.5)
     pbrParamsValue[2] = props?.occlusion ?? 1.0
     const pbrFlag = new Uint32Array(_pbrBuffer, 24, 1)
 
     pbrFlag[0] = setBitOfValue(pbrFlag[0], 0, !!props?.albedoTexture)
-    pbrFlag[0] = setBitOfValue(pbrFlag[0], 1, !!props?.occlusionRoughnessMetallicTexture)
+    pbrFlag[0] = setBitOfValue(pbrFlag[0], 1, !!mrTexture())
+    pbrFlag[0] = setBitOfValue(pbrFlag[0], 2, !!props?.normalTexture)
+    pbrFlag[0] = setBitOfValue(pbrFlag[0], 3, !!props?.occlusionTexture)
+    pbrFlag[0] = setBitOfValue(pbrFlag[0], 4, !!props?.emissiveTexture)
+    pbrFlag[0] = setBitOfValue(pbrFlag[0], 5, !!props?.occlusionRoughnessMetallicTexture)
+    pbrFlag[0] = setBitOfValue(pbrFlag[0], 6, !!props?.clearcoatTexture)
+    pbrFlag[0] = setBitOfValue(pbrFlag[0], 7, !!props?.clearcoatRoughnessTexture)
+    pbrFlag[0] = setBitOfValue(pbrFlag[0], 8, !!props?.clearcoatNormalTexture)
+    pbrFlag[0] = setBitOfValue(pbrFlag[0], 9, !!props?.sheenColorTexture)
+    pbrFlag[0] = setBitOfValue(pbrFlag[0], 10, !!props?.sheenRoughnessTexture)
+    pbrFlag[0] = setBitOfValue(pbrFlag[0], 11, !!props?.specularTexture)
+    pbrFlag[0] = setBitOfValue(pbrFlag[0], 12, !!props?.specularColorTexture)
+    pbrFlag[0] = setBitOfValue(pbrFlag[0], 13, !!props?.transmissionTexture)
+
+    const values = new Float32Array(_pbrBuffer, 28, 8)
+    values[0] = props?.alpha ?? 1
+    new Vec3(_pbrBuffer, 32).copy(props?.emissive ?? Vec3.fromValues(0, 0, 0)).scale(props?.emissiveStrength ?? 1)
+    values[4] = props?.normalScale ?? 1
+    values[5] = props?.occlusionStrength ?? 1
+    values[6] = props?.alphaCutoff ?? 0.5
+    new Uint32Array(_pbrBuffer, 56, 1)[0] = alphaModes[props?.alphaMode ?? 'OPAQUE']
+
+    new Float32Array(_pbrBuffer, 60, 1)[0] = props?.ior ?? 1.5
+    new Vec3(_pbrBuffer, 64).copy(props?.specularColor ?? Vec3.fromValues(1, 1, 1))
+    new Float32Array(_pbrBuffer, 76, 1)[0] = props?.specular ?? 1
+    new Vec3(_pbrBuffer, 80).copy(props?.sheenColor ?? Vec3.fromValues(0, 0, 0))
+    const layers = new Float32Array(_pbrBuffer, 92, 5)
+    layers[0] = props?.sheenRoughness ?? 0
+    layers[1] = props?.clearcoat ?? 0
+    layers[2] = props?.clearcoatRoughness ?? 0
+    layers[3] = props?.clearcoatNormalScale ?? 1
+    layers[4] = props?.transmission ?? 0
+
+    writeTextureTransform(_pbrBuffer, textureSlots.albedo, props?.albedoTexture)
+    writeTextureTransform(_pbrBuffer, textureSlots.occlusionRoughnessMetallic, mrTexture())
+    writeTextureTransform(_pbrBuffer, textureSlots.normal, props?.normalTexture)
+    writeTextureTransform(_pbrBuffer, textureSlots.occlusion, props?.occlusionTexture)
+    writeTextureTransform(_pbrBuffer, textureSlots.emissive, props?.emissiveTexture)
+    writeTextureTransform(_pbrBuffer, textureSlots.clearcoat, clearcoatTexture())
+    writeTextureTransform(_pbrBuffer, textureSlots.clearcoatNormal, props?.clearcoatNormalTexture)
+    writeTextureTransform(_pbrBuffer, textureSlots.sheen, sheenTexture())
+    writeTextureTransform(_pbrBuffer, textureSlots.specular, specularTexture())
+    writeTextureTransform(_pbrBuffer, textureSlots.transmission, props?.transmissionTexture)
+    // written in place, the buffer reference never changes
+    uniform?.setValue(_pbrBuffer)
   })
 
   return (
     <Material
       shaderCode={shaderCode}
+      model={{ type: 'pbr', props }}
+      cullMode={props.doubleSided ? 'none' : 'back'}
+      transparent={props.alphaMode === 'BLEND'}
+      depthWrite={props.alphaMode !== 'BLEND'}
       uniforms={
         <>
           <UniformBuffer buildInType="base" />
-          <UniformBuffer value={_pbrBuffer} />
-          {props.albedoTexture ? (
-            <Texture
-              descriptor={{
-                size: { width: props.albedoTexture.width, height: props.albedoTexture.height }
-              }}
-              image={props.albedoTexture}
-            />
-          ) : (
-            <DefaultTexture />
-          )}
-          {props.occlusionRoughnessMetallicTexture ? (
-            <Texture
-              descriptor={{
-                size: {
-                  width: props.occlusionRoughnessMetallicTexture.width,
-                  height: props.occlusionRoughnessMetallicTexture.height
-                }
-              }}
-              image={props.occlusionRoughnessMetallicTexture}
-            />
-          ) : (
-            <DefaultTexture />
-          )}
+          <UniformBuffer value={_pbrBuffer} ref={v => (uniform = v)} />
+          <MaterialTexture source={props.albedoTexture} />
+          <MaterialTexture source={mrTexture()} />
 
+          <MaterialSampler source={props.albedoTexture} />
+          <UniformBuffer buildInType="punctual_lights" />
+          <UniformBuffer buildInType="shadows" />
+          <ShadowMap />
+          <Sampler descriptor={{ compare: 'less', magFilter: 'linear', minFilter: 'linear' }} />
+          <UniformBuffer buildInType="light_clusters" />
+          <UniformBuffer buildInType="environment" />
+          <EnvironmentMap type="irradiance" />
+          <EnvironmentMap type="specular" />
+          <EnvironmentMap type="brdfLut" />
           <Sampler
             descriptor={{
               magFilter: 'linear',
               minFilter: 'linear',
-              mipmapFilter: 'linear',
-              addressModeU: 'repeat',
-              addressModeV: 'repeat'
+              mipmapFilter: 'linear'
             }}
           />
-          <UniformBuffer buildInType="punctual_lights" />
+          <MaterialTexture source={props.normalTexture} />
+          <MaterialTexture source={props.occlusionTexture} />
+          <MaterialTexture source={props.emissiveTexture} />
+          <MaterialSampler source={mrTexture()} />
+          <MaterialSampler source={props.normalTexture} />
+          <MaterialSampler source={props.occlusionTexture} />
+          <MaterialSampler source={props.emissiveTexture} />
+          <UniformBuffer buildInType="joints" />
+          <UniformBuffer buildInType="morph_targets" />
+          <UniformBuffer buildInType="morph_weights" />
+          <MaterialTexture source={clearcoatTexture()} />
+          <MaterialTexture source={props.clearcoatNormalTexture} />
+          <MaterialTexture source={sheenTexture()} />
+          <MaterialTexture source={specularTexture()} />
+          <MaterialTexture source={props.transmissionTexture} />
+          <MaterialSampler source={clearcoatTexture()} />
+          <MaterialSampler source={props.clearcoatNormalTexture} />
+          <MaterialSampler source={sheenTexture()} />
+          <MaterialSampler source={specularTexture()} />
+          <MaterialSampler source={props.transmissionTexture} />
         </>
       }
     />
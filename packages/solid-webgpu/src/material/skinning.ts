@@ -0,0 +1,30 @@
+import { usesBuiltin } from './color_management'
+
+const skinnedCode = /* wgsl */ `
+fn skin_matrix(joints: vec4<u32>, weights: vec4<f32>) -> mat4x4<f32> {
+    return joint_matrices[joints.x] * weights.x +
+        joint_matrices[joints.y] * weights.y +
+        joint_matrices[joints.z] * weights.z +
+        joint_matrices[joints.w] * weights.w;
+}`
+
+const staticCode = /* wgsl */ `
+fn skin_matrix(joints: vec4<u32>, weights: vec4<f32>) -> mat4x4<f32> {
+    return mat4x4<f32>(
+        1.0, 0.0, 0.0, 0.0,
+        0.0, 1.0, 0.0, 0.0,
+        0.0, 0.0, 1.0, 0.0,
+        0.0, 0.0, 0.0, 1.0
+    );
+}`
+
+/**
+ * append built-in `skin_matrix` if shader calls it without own definition,
+ * skinned variant blends `joint_matrices` declared by shader, otherwise identity
+ */
+export const withSkinning = (code: string, skinned: boolean) => {
+  if (usesBuiltin(code, 'skin_matrix')) {
+    code += '\n' + (skinned ? skinnedCode : staticCode)
+  }
+  return code
+}
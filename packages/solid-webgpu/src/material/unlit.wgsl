@@ -2,12 +2,28 @@ struct VertexInput {
     @location(0) POSITION: vec3<f32>,
     @location(1) NORMAL: vec3<f32>,
     @location(2) TANGENT: vec4<f32>,
-    @location(3) TEXCOORD_0: vec2<f32>
+    @location(3) TEXCOORD_0: vec2<f32>,
+    @location(4) JOINTS_0: vec4<u32>,
+    @location(5) WEIGHTS_0: vec4<f32>,
+    @location(6) COLOR_0: vec4<f32>
 };
 
+struct MorphDelta {
+    position: vec3<f32>,
+    normal: vec3<f32>,
+    tangent: vec3<f32>,
+}
+
+struct MorphTargets {
+    vertex_count: u32,
+    target_count: u32,
+    deltas: array<MorphDelta>,
+}
+
 struct VertexOutput {
     @builtin(position) clip_position: vec4<f32>,
     @location(0) uv: vec2<f32>,
+    @location(1) color: vec4<f32>,
 };
 
 struct BaseUniforms {
@@ -34,15 +50,27 @@ var<uniform> params: Params;
 var albedo_texture: texture_2d<f32>;
 
 @group(0) @binding(3)
-var texture_sampler: sampler;
+var albedo_sampler: sampler;
+
+// relative to the mesh, identity without skeleton
+@group(0) @binding(4)
+var<storage, read> joint_matrices: array<mat4x4<f32>>;
+
+@group(0) @binding(5)
+var<storage, read> morph_targets: MorphTargets;
+
+@group(0) @binding(6)
+var<storage, read> morph_weights: array<f32>;
 
 @vertex
-fn vs_main(input: VertexInput) -> VertexOutput {
+fn vs_main(input: VertexInput, @builtin(vertex_index) vertex_index: u32) -> VertexOutput {
     var output: VertexOutput;
-    let world_position = (uniforms.model * vec4<f32>(input.POSITION, 1.0)).xyz;
+    let model = uniforms.model * skin_matrix(input.JOINTS_0, input.WEIGHTS_0);
+    let world_position = (model * vec4<f32>(morph_position(vertex_index, input.POSITION), 1.0)).xyz;
     let view_position = (uniforms.view * vec4<f32>(world_position, 1.0)).xyz;
     output.clip_position = uniforms.projection * vec4<f32>(view_position, 1.0);
     output.uv = input.TEXCOORD_0;
+    output.color = input.COLOR_0;
     return output;
 }
 
@@ -50,7 +78,7 @@ fn get_values(uv: vec2<f32>) -> Params {
     var result = params;
 
     if (params.use_textures & 1u) != 0u {
-        result.albedo = textureSample(albedo_texture, texture_sampler, uv).rgb;
+        result.albedo = textureSample(albedo_texture, albedo_sampler, uv).rgb;
     }
 
     return result;
@@ -59,18 +87,20 @@ fn get_values(uv: vec2<f32>) -> Params {
 
 const PI: f32 = 3.14159265359;
 
+fn srgb_to_linear(color: vec3<f32>) -> vec3<f32> {
+    let low = color / 12.92;
+    let high = pow((color + 0.055) / 1.055, vec3<f32>(2.4));
+    return select(high, low, color <= vec3<f32>(0.04045));
+}
+
 @fragment
 fn fs_main(input: VertexOutput) -> @location(0) vec4<f32> {
 
 
     let values = get_values(input.uv);
 
-    let color = values.albedo;
-
-    // // Tone mapping
-    // let mapped = color / (color + vec3<f32>(1.0));
-    // // Gamma correction
-    // let corrected = pow(mapped, vec3<f32>(1.0 / 2.2));
+    // albedo is display referred, unlit color is not tone mapped
+    let color = linear_to_output(srgb_to_linear(values.albedo) * input.color.rgb);
 
     return vec4<f32>(color, 1.0);
 }
\ No newline at end of file
@@ -1,49 +1,40 @@
 import { Vec3, Vec3Like } from 'math'
 import { createEffect } from 'solid-js'
+import { TextureSource } from '../types'
 import { setBitOfValue } from '../utils'
-import { DefaultTexture, Material, Sampler, Texture, UniformBuffer } from './material'
+import { Material, MaterialSampler, MaterialTexture, UniformBuffer, UniformBufferRef } from './material'
 import shaderCode from './unlit.wgsl?raw'
 
 export type UnlitMaterialProps = {
   albedo?: Vec3Like
-  albedoTexture?: ImageBitmap
+  albedoTexture?: TextureSource
 }
 export const UnlitMaterial = (props: UnlitMaterialProps) => {
   const _buffer = new ArrayBuffer(16)
+  let uniform: UniformBufferRef | undefined
 
   createEffect(() => {
-    const albedo = new Vec3(_buffer).copy(props?.albedo ?? Vec3.fromValues(0, 0.5, 1))
+    new Vec3(_buffer).copy(props?.albedo ?? Vec3.fromValues(0, 0.5, 1))
 
     const flag = new Uint32Array(_buffer, 12, 1)
     flag[0] = setBitOfValue(flag[0], 0, !!props?.albedoTexture)
+    // written in place, the buffer reference never changes
+    uniform?.setValue(_buffer)
   })
 
   return (
     <Material
       shaderCode={shaderCode}
+      model={{ type: 'unlit', props }}
       uniforms={
         <>
           <UniformBuffer buildInType="base" />
-          <UniformBuffer value={_buffer} />
-          {props.albedoTexture ? (
-            <Texture
-              descriptor={{
-                size: { width: props.albedoTexture.width, height: props.albedoTexture.height }
-              }}
-              image={props.albedoTexture}
-            />
-          ) : (
-            <DefaultTexture />
-          )}
-          <Sampler
-            descriptor={{
-              magFilter: 'linear',
-              minFilter: 'linear',
-              mipmapFilter: 'linear',
-              addressModeU: 'repeat',
-              addressModeV: 'repeat'
-            }}
-          />
+          <UniformBuffer value={_buffer} ref={v => (uniform = v)} />
+          <MaterialTexture source={props.albedoTexture} />
+          <MaterialSampler source={props.albedoTexture} />
+          <UniformBuffer buildInType="joints" />
+          <UniformBuffer buildInType="morph_targets" />
+          <UniformBuffer buildInType="morph_weights" />
         </>
       }
     />
@@ -1,19 +1,53 @@
-import { createEffect, JSX } from 'solid-js'
+import { createEffect, createSignal, JSX, onCleanup, untrack } from 'solid-js'
 import { createStore } from 'solid-js/store'
-import { MeshContextProvider, useSceneContext } from './context'
+import { MeshContextProvider, SceneContext, useSceneContext } from './context'
+import { withColorManagement } from './material/color_management'
+import { withMorphTargets } from './material/morph_targets'
+import { withSkinning } from './material/skinning'
 
 import { createObject3DContext, Object3DProps, Object3DRef } from './object3d'
-import { GeometryContext, MaterialContext, MeshContext, VertexBufferContext } from './types'
+import shadowShaderCode from './shadow_depth.wgsl?raw'
+import {
+  GeometryContext,
+  MaterialContext,
+  MeshContext,
+  MeshExtra,
+  SkeletonContext,
+  UniformBufferContext,
+  VertexAttribute,
+  VertexBufferContext
+} from './types'
+import { createBuffer, getStoragePlaceholder } from './utils'
 // import { PunctualLightToken, Token, tokenizer } from './tokenizer'
 
 export type MeshRef = Object3DRef<MeshContext>
 export type MeshProps = Object3DProps<MeshContext> & {
   geometry?: JSX.Element
   material?: JSX.Element
+  /**
+   * `Skeleton` deforming the geometry
+   */
+  skeleton?: JSX.Element
+  castShadow?: boolean
+  receiveShadow?: boolean
+  /**
+   * weight per morph target of geometry, missing weights are zero
+   */
+  morphWeights?: ArrayLike<number>
 }
 
 export const Mesh = (props: MeshProps) => {
-  const { store: _s, setStore: _setS, Provider } = createObject3DContext(['Mesh'], props, {})
+  const morphWeights = createSignal<ArrayLike<number>>([], { equals: false })
+  const {
+    store: _s,
+    setStore: _setS,
+    Provider
+  } = createObject3DContext(['Mesh'], props, {
+    castShadow: false,
+    receiveShadow: false,
+    morphWeights: morphWeights[0],
+    setMorphWeights: morphWeights[1]
+  } satisfies Omit<MeshExtra, 'geometry' | 'material'>)
 
   const [scene, setScene] = useSceneContext()
 
@@ -22,6 +56,33 @@ export const Mesh = (props: MeshProps) => {
   const [store, setStore] = createStore(scene.nodes[id] as MeshContext)
   props.ref?.(store)
 
+  createEffect(() => setStore('castShadow', props.castShadow ?? false))
+  createEffect(() => setStore('receiveShadow', props.receiveShadow ?? false))
+  createEffect(() => store.setMorphWeights(props.morphWeights ?? []))
+
+  /**
+   * morph weights buffer, rewritten in place while the count stays the same
+   */
+  createEffect(() => {
+    const { device } = scene
+    const weights = store.morphWeights()
+    const data = new Float32Array(Math.max(weights.length, 1))
+    data.set(weights)
+    const current = untrack(() => store.morphWeightsBuffer)
+    if (current && current.size === data.byteLength) {
+      device.queue.writeBuffer(current, 0, data)
+      // bind group stays the same, request frame manually
+      scene.invalidate()
+      return
+    }
+    current?.destroy()
+    setStore(
+      'morphWeightsBuffer',
+      createBuffer({ device, data, usage: GPUBufferUsage.STORAGE, label: `morph weights ${id}` })
+    )
+  })
+  onCleanup(() => store.morphWeightsBuffer?.destroy())
+
   createEffect(() => {
     if (!store.material || !store.geometry) {
       console.warn('no material or geometry found')
@@ -30,26 +91,13 @@ export const Mesh = (props: MeshProps) => {
     }
     const material = scene.nodes[store.material] as MaterialContext
     const geometry = scene.nodes[store.geometry] as GeometryContext
-    const { device, format, samples } = scene
-
-    let code = material.shaderCode
+    const { device, format, samples, toneMapping, outputColorSpace } = scene
 
-    /**
-     * set builtin vertexInput if defined in vertexBuffer
-     */
-    const vertexInputStr = geometry.vertexBuffers
-      .map(v => {
-        return scene.nodes[v] as VertexBufferContext
-      })
-      .filter(v => v.attribute?.name && builtinAttributeNames.includes(v.attribute?.name))
-      .map((v, i) => `  @location(${i}) ${v.attribute!.name}: ${v.attribute!.type}`)
-      .join(',\n')
-    if (vertexInputStr) {
-      const old = code.match(/^struct VertexInput {\n(.|\n)*?}/)?.[0]
-      const rep = `struct VertexInput {\n${vertexInputStr}\n}`
-      code = old?.length ? code.replace(old, rep) : rep + '\n' + code
-    }
-    const shaderModule = device.createShaderModule({ code })
+    let code = withColorManagement(material.shaderCode, toneMapping, outputColorSpace)
+    code = withSkinning(code, isSkinned(store, geometry, scene.nodes))
+    code = withMorphTargets(code, geometry.morphTargets.length > 0)
+    const vertexInput = withVertexInput(code, geometry, scene.nodes)
+    const shaderModule = device.createShaderModule({ code: vertexInput.code })
 
     const bindGroupLayout = material.bindGroupLayout
     if (!bindGroupLayout) {
@@ -64,12 +112,12 @@ export const Mesh = (props: MeshProps) => {
       vertex: {
         module: shaderModule,
         entryPoint: 'vs_main',
-        buffers: geometry.vertexBuffers.map(v => (scene.nodes[v] as VertexBufferContext).layout)
+        buffers: vertexInput.layouts
       },
       fragment: {
         module: shaderModule,
         entryPoint: 'fs_main',
-        targets: [{ format }]
+        targets: [{ format, blend: material.blending ?? (material.transparent ? alphaBlending : undefined) }]
       },
       primitive: {
         frontFace: 'ccw',
@@ -87,11 +135,88 @@ export const Mesh = (props: MeshProps) => {
     setStore('pipeline', pipeline)
   })
 
+  /**
+   * depth only pipeline for shadow pass, model matrix comes from built-in base uniform buffer of material
+   */
+  createEffect(() => {
+    if (!store.castShadow || !store.material || !store.geometry) {
+      setStore('shadowPipeline', undefined)
+      return
+    }
+    const material = scene.nodes[store.material] as MaterialContext
+    const geometry = scene.nodes[store.geometry] as GeometryContext
+    const { device, shadow } = scene
+    const base = material.uniforms.map(v => scene.nodes[v] as UniformBufferContext).find(v => v.builtIn === 'base')
+    if (!base || !shadow.passBindGroupLayout) {
+      setStore('shadowPipeline', undefined)
+      return
+    }
+
+    const bindGroupLayout = device.createBindGroupLayout({
+      entries: [
+        { binding: 0, visibility: GPUShaderStage.VERTEX, buffer: {} },
+        { binding: 1, visibility: GPUShaderStage.VERTEX, buffer: { type: 'read-only-storage' } },
+        { binding: 2, visibility: GPUShaderStage.VERTEX, buffer: { type: 'read-only-storage' } },
+        { binding: 3, visibility: GPUShaderStage.VERTEX, buffer: { type: 'read-only-storage' } }
+      ]
+    })
+    const skinned = isSkinned(store, geometry, scene.nodes)
+    const vertexInput = withVertexInput(
+      withMorphTargets(withSkinning(shadowShaderCode, skinned), geometry.morphTargets.length > 0),
+      geometry,
+      scene.nodes
+    )
+    const shaderModule = device.createShaderModule({ code: vertexInput.code })
+    const shadowPipeline = device.createRenderPipeline({
+      layout: device.createPipelineLayout({
+        bindGroupLayouts: [bindGroupLayout, shadow.passBindGroupLayout]
+      }),
+      label: `mesh-${_s.id}-shadow-pipeline`,
+      vertex: {
+        module: shaderModule,
+        entryPoint: 'vs_main',
+        buffers: vertexInput.layouts
+      },
+      primitive: {
+        frontFace: 'ccw',
+        cullMode: material.cullMode,
+        topology: geometry.topology
+      },
+      depthStencil: {
+        depthWriteEnabled: true,
+        depthCompare: 'less',
+        format: 'depth32float'
+      }
+    })
+    setStore('shadowPipeline', shadowPipeline)
+
+    createEffect(() => {
+      if (!base.buffer) {
+        return
+      }
+      const skeleton = store.skeleton ? (scene.nodes[store.skeleton] as SkeletonContext) : undefined
+      const placeholder = getStoragePlaceholder(device)
+      setStore(
+        'shadowBindGroup',
+        device.createBindGroup({
+          layout: bindGroupLayout,
+          entries: [
+            { binding: 0, resource: { buffer: base.buffer } },
+            { binding: 1, resource: { buffer: skeleton?.buffer ?? placeholder } },
+            { binding: 2, resource: { buffer: geometry.morphBuffer ?? placeholder } },
+            { binding: 3, resource: { buffer: store.morphWeightsBuffer ?? placeholder } }
+          ]
+        })
+      )
+    })
+  })
+
   setScene('renderList', v => v.concat(id))
 
   return (
     <Provider>
       <MeshContextProvider value={[store, setStore]}>
+        {props.skeleton}
         {props.geometry}
         {props.material}
         {props.children}
@@ -99,4 +224,108 @@ export const Mesh = (props: MeshProps) => {
     </Provider>
   )
 }
-const builtinAttributeNames = ['POSITION', 'NORMAL', 'TANGENT', 'TEXCOORD_0']
+/**
+ * skinned vertex variant needs a skeleton and joint attributes
+ */
+const isSkinned = (mesh: MeshContext, geometry: GeometryContext, nodes: SceneContext['nodes']) => {
+  const names = geometry.vertexBuffers.flatMap(v => (nodes[v] as VertexBufferContext).attributes.map(a => a.name))
+  return !!mesh.skeleton && names.includes('JOINTS_0') && names.includes('WEIGHTS_0')
+}
+
+const alphaBlending: GPUBlendState = {
+  color: { srcFactor: 'src-alpha', dstFactor: 'one-minus-src-alpha' },
+  alpha: { srcFactor: 'one', dstFactor: 'one-minus-src-alpha' }
+}
+
+/**
+ * glTF attribute semantics, shader inputs named like them are bound by name
+ */
+const semanticPattern = /^(POSITION|NORMAL|TANGENT|(TEXCOORD|COLOR|JOINTS|WEIGHTS)_\d+)$/
+
+const scalarKindOf = (type: string) => (/u32|\du$/.test(type) ? 'u' : /i32|\di$/.test(type) ? 'i' : 'f')
+
+/**
+ * value of a shader input without attribute, vertex colors default to white
+ */
+const defaultInputOf = (name: string, type: string) => (name.startsWith('COLOR_') ? `${type}(1.0)` : `${type}()`)
+
+/**
+ * bind named attributes to the shader inputs of the same name at locations after the ones of unnamed layouts
+ * and custom inputs, inputs without attribute are removed from `VertexInput` and read as their default.
+ * geometries without named attributes keep shader & layouts as is
+ */
+const withVertexInput = (code: string, geometry: GeometryContext, nodes: SceneContext['nodes']) => {
+  const vertexBuffers = geometry.vertexBuffers.map(v => nodes[v] as VertexBufferContext)
+  const layouts = vertexBuffers.map(v => v.layout)
+  if (!vertexBuffers.some(v => v.attributes.length)) {
+    return { code, layouts }
+  }
+
+  const providers = new Map<string, { buffer: number; attribute: Required<VertexAttribute>; location?: number }>()
+  vertexBuffers.forEach((v, buffer) => {
+    for (const attribute of v.attributes) {
+      if (!providers.has(attribute.name)) {
+        providers.set(attribute.name, { buffer, attribute })
+      }
+    }
+  })
+  const old = code.match(/^struct VertexInput\s*\{\s*(.|\n)*?}/m)?.[0]
+  const inputs = (old?.slice(old.indexOf('{') + 1, -1).split(/,|\n/) ?? []).flatMap(field => {
+    const [, decorations, name, type] = field.trim().match(/^(.*?)(\w+)\s*:\s*([\w<>]+)$/) ?? []
+    return name ? [{ decorations, name, type }] : []
+  })
+  // custom inputs keep their locations, named attributes are placed after them and the unnamed layouts
+  const takenLocations = [
+    ...vertexBuffers
+      .filter(v => !v.attributes.length)
+      .flatMap(v => Array.from(v.layout.attributes, a => a.shaderLocation)),
+    ...inputs
+      .filter(v => !providers.has(v.name) && !semanticPattern.test(v.name))
+      .flatMap(v => v.decorations.match(/@location\((\d+)\)/)?.[1] ?? [])
+      .map(Number)
+  ]
+  let location = takenLocations.length ? Math.max(...takenLocations) + 1 : 0
+
+  const fields: string[] = []
+  if (old) {
+    for (const { decorations, name, type } of inputs) {
+      const provider = providers.get(name)
+      if (!provider && !semanticPattern.test(name)) {
+        fields.push(`  ${decorations}${name}: ${type}`)
+        continue
+      }
+      if (provider && scalarKindOf(provider.attribute.type) === scalarKindOf(type)) {
+        provider.location = location++
+        fields.push(`  @location(${provider.location}) ${name}: ${type}`)
+        continue
+      }
+      if (provider) {
+        console.warn(`vertex attribute ${name} of ${provider.attribute.format} can't be read as ${type}`)
+      }
+      code = code.replace(new RegExp(`\\b\\w+\\.${name}\\b`, 'g'), defaultInputOf(name, type))
+    }
+  } else {
+    for (const [name, provider] of providers) {
+      provider.location = location++
+      fields.push(`  @location(${provider.location}) ${name}: ${provider.attribute.type}`)
+    }
+  }
+  const rep = `struct VertexInput {\n${fields.join(',\n')}\n}`
+  code = old ? code.replace(old, rep) : rep + '\n' + code
+
+  return {
+    code,
+    layouts: vertexBuffers.map((v, buffer): GPUVertexBufferLayout => {
+      if (!v.attributes.length) {
+        return v.layout
+      }
+      const attributes = v.attributes.flatMap(attribute => {
+        const provider = providers.get(attribute.name)
+        return provider?.buffer === buffer && provider.location !== undefined
+          ? [{ format: attribute.format, offset: attribute.offset, shaderLocation: provider.location }]
+          : []
+      })
+      return { arrayStride: v.layout.arrayStride, stepMode: v.layout.stepMode, attributes }
+    })
+  }
+}
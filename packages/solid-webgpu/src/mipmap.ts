@@ -0,0 +1,99 @@
+import shaderCode from './mipmap.wgsl?raw'
+
+type MipmapResources = {
+  module: GPUShaderModule
+  sampler: GPUSampler
+  pipelines: Map<GPUTextureFormat, GPURenderPipeline>
+}
+const resourceCache = new WeakMap<GPUDevice, MipmapResources>()
+
+const getResources = (device: GPUDevice) => {
+  let resources = resourceCache.get(device)
+  if (!resources) {
+    resources = {
+      module: device.createShaderModule({ code: shaderCode, label: 'mipmap' }),
+      sampler: device.createSampler({ minFilter: 'linear', magFilter: 'linear' }),
+      pipelines: new Map()
+    }
+    resourceCache.set(device, resources)
+  }
+  return resources
+}
+
+const getPipeline = (device: GPUDevice, format: GPUTextureFormat) => {
+  const { module, pipelines } = getResources(device)
+  let pipeline = pipelines.get(format)
+  if (!pipeline) {
+    pipeline = device.createRenderPipeline({
+      label: `mipmap ${format}`,
+      layout: 'auto',
+      vertex: { module, entryPoint: 'vs_main' },
+      fragment: { module, entryPoint: 'fs_main', targets: [{ format }] },
+      primitive: { topology: 'triangle-list' }
+    })
+    pipelines.set(format, pipeline)
+  }
+  return pipeline
+}
+
+/**
+ * width, height and depth or array layers of an extent
+ */
+export const extent3D = (size: GPUExtent3D): [number, number, number] => {
+  if (Symbol.iterator in size) {
+    const [width, height = 1, depthOrArrayLayers = 1] = size
+    return [width, height, depthOrArrayLayers]
+  }
+  return [size.width, size.height ?? 1, size.depthOrArrayLayers ?? 1]
+}
+
+/**
+ * full mip chain down to 1x1
+ */
+export const mipLevelCount = (width: number, height: number) => Math.floor(Math.log2(Math.max(width, height, 1))) + 1
+
+/**
+ * fill mip levels after the first one of every layer by downsampling the previous level in a render pass,
+ * texture needs `RENDER_ATTACHMENT` usage and a renderable, filterable 2d format, cube and array textures included
+ */
+export const generateMipmaps = (device: GPUDevice, texture: GPUTexture) => {
+  if (texture.mipLevelCount < 2) {
+    return
+  }
+  if (texture.dimension !== '2d') {
+    throw new Error(`Only support mipmaps of 2d textures, got ${texture.dimension}`)
+  }
+  const { sampler } = getResources(device)
+  const pipeline = getPipeline(device, texture.format)
+  const levelView = (layer: number, mip: number) =>
+    texture.createView({
+      dimension: '2d',
+      baseMipLevel: mip,
+      mipLevelCount: 1,
+      baseArrayLayer: layer,
+      arrayLayerCount: 1
+    })
+
+  const commandEncoder = device.createCommandEncoder({ label: 'mipmap' })
+  for (let layer = 0; layer < texture.depthOrArrayLayers; layer++) {
+    for (let mip = 1; mip < texture.mipLevelCount; mip++) {
+      const passEncoder = commandEncoder.beginRenderPass({
+        colorAttachments: [{ view: levelView(layer, mip), loadOp: 'clear', storeOp: 'store' }]
+      })
+      passEncoder.setPipeline(pipeline)
+      passEncoder.setBindGroup(
+        0,
+        device.createBindGroup({
+          layout: pipeline.getBindGroupLayout(0),
+          entries: [
+            { binding: 0, resource: levelView(layer, mip - 1) },
+            { binding: 1, resource: sampler }
+          ]
+        })
+      )
+      passEncoder.draw(3)
+      passEncoder.end()
+    }
+  }
+  device.queue.submit([commandEncoder.finish()])
+}
@@ -1,5 +1,5 @@
 import { Mat4, Quat, QuatLike, Vec3, Vec3Like } from 'math'
-import { createEffect, createSignal, createUniqueId, ParentProps, splitProps } from 'solid-js'
+import { createEffect, createSignal, createUniqueId, onCleanup, ParentProps, splitProps } from 'solid-js'
 import { createStore } from 'solid-js/store'
 import { NodeContextProvider, Object3DContextProvider, useObject3DContext, useSceneContext } from './context'
 import { NodeContext, NodeProps, NodeRef, Object3DContext, Object3DExtra } from './types'
@@ -61,13 +61,15 @@ export const createObject3DContext = <T,>(
     up: u[0],
     setUp: u[1]
   }
+  const parentCtx = useObject3DContext()
   const {
     store: _s,
     setStore: _setS,
     Provider
   } = createNodeContext(['Object3D'].concat(type), props, {
     ...init,
-    ...o3dExt
+    ...o3dExt,
+    parent: parentCtx?.[0].id
   })
 
   const [o3dProps] = splitProps(props, ['position', 'quaternion', 'scale'])
@@ -76,6 +78,12 @@ export const createObject3DContext = <T,>(
   const [scene] = useSceneContext()
   const [store, setStore] = createStore(scene.nodes[id] as Object3DContext)
 
+  // children in mount order, so the graph can be walked from a root
+  if (parentCtx) {
+    parentCtx[1]('children', (v = []) => v.concat(id))
+    onCleanup(() => parentCtx[1]('children', v => v?.filter(c => c !== id)))
+  }
+
   createEffect(() => {
     store.setPosition(v => {
       v.copy(o3dProps.position ?? [0, 0, 0])
@@ -98,7 +106,6 @@ export const createObject3DContext = <T,>(
   })
 
   // update matrix
-  const parentCtx = useObject3DContext()
   createEffect(() => {
     const { quaternion, position, scale } = store
     store.setMatrix(m => {
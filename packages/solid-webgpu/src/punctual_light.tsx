@@ -10,6 +10,12 @@ export type PunctualLightProps = Object3DProps<PunctualLightContext> & {
   color?: Vec3Like
   intensity?: number
   range?: number
+  castShadow?: boolean
+  shadowMapSize?: number
+  shadowBias?: number
+  shadowNormalBias?: number
+  shadowCascades?: number
+  shadowDistance?: number
 } & ({ type?: 'directional' | 'point' } | { type: 'spot'; innerConeAngle?: number; outerConeAngle?: number })
 
 export const PunctualLight = (props: PunctualLightProps) => {
@@ -25,7 +31,13 @@ export const PunctualLight = (props: PunctualLightProps) => {
     range: Infinity,
     lightType: 'directional',
     innerConeAngle: 0,
-    outerConeAngle: Math.PI / 4
+    outerConeAngle: Math.PI / 4,
+    castShadow: false,
+    shadowMapSize: 1024,
+    shadowBias: 0.005,
+    shadowNormalBias: 0.02,
+    shadowCascades: 3,
+    shadowDistance: 50
   } satisfies PunctualLightExtra)
 
   const [scene, setScene] = useSceneContext()
@@ -57,6 +69,13 @@ export const PunctualLight = (props: PunctualLightProps) => {
     )
   )
 
+  createEffect(() => setStore('castShadow', props.castShadow ?? false))
+  createEffect(() => setStore('shadowMapSize', props.shadowMapSize ?? 1024))
+  createEffect(() => setStore('shadowBias', props.shadowBias ?? 0.005))
+  createEffect(() => setStore('shadowNormalBias', props.shadowNormalBias ?? 0.02))
+  createEffect(() => setStore('shadowCascades', props.shadowCascades ?? 3))
+  createEffect(() => setStore('shadowDistance', props.shadowDistance ?? 50))
+
   setScene('lightList', v => v.concat(id))
 
   return (
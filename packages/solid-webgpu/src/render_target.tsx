@@ -0,0 +1,104 @@
+import { batch, createEffect, mergeProps, ParentProps, Show, splitProps } from 'solid-js'
+import { CameraRef } from './camera'
+import { Frameloop, SceneContext, SceneContextProvider } from './context'
+import { SceneDeviceProps, useSceneDevice } from './device'
+import { createScene } from './scene'
+import { LightCulling, OutputColorSpace, ToneMapping } from './types'
+
+export type RenderTargetRef = {
+  scene: SceneContext
+  /**
+   * run frame callbacks and render into target immediately
+   */
+  render: () => void
+}
+
+export type RenderTargetProps = ParentProps &
+  SceneDeviceProps & {
+    /**
+     * texture requires `RENDER_ATTACHMENT` usage
+     */
+    target: GPUTexture | OffscreenCanvas
+    width?: number
+    height?: number
+    format?: GPUTextureFormat
+    autoClear?: boolean
+    samples?: number
+    frameloop?: Frameloop
+    clearColor?: GPUColorDict
+    alphaMode?: GPUCanvasAlphaMode
+    toneMapping?: ToneMapping
+    outputColorSpace?: OutputColorSpace
+    /**
+     * `clustered` assigns lights to view space clusters in a compute pass before drawing
+     */
+    lightCulling?: LightCulling
+    camera?: CameraRef
+    ref?: (v: RenderTargetRef) => void
+  }
+
+/**
+ * render scene into a `GPUTexture` or `OffscreenCanvas` without DOM,
+ * usable in worker or with a mocked `GPUDevice`
+ */
+export const RenderTarget = (props: RenderTargetProps) => {
+  const [cProps, deviceProps, _props] = splitProps(
+    props,
+    ['children', 'ref', 'target'],
+    ['device', 'deviceOptions', 'onDeviceLost']
+  )
+
+  const isTexture = (v: GPUTexture | OffscreenCanvas): v is GPUTexture => 'createView' in v
+
+  const defaultProps = {
+    get width() {
+      return cProps.target.width
+    },
+    get height() {
+      return cProps.target.height
+    },
+    get format() {
+      return isTexture(cProps.target)
+        ? cProps.target.format
+        : (navigator.gpu?.getPreferredCanvasFormat() ?? 'bgra8unorm')
+    },
+    autoClear: true,
+    samples: 4,
+    frameloop: 'always' as Frameloop,
+    clearColor: { r: 0, g: 0, b: 0, a: 1 } as GPUColorDict,
+    alphaMode: 'premultiplied' as GPUCanvasAlphaMode,
+    toneMapping: 'reinhard' as ToneMapping,
+    outputColorSpace: 'srgb' as OutputColorSpace,
+    lightCulling: 'none' as LightCulling
+  }
+  const propsWithDefault = mergeProps(defaultProps, _props)
+
+  const device = useSceneDevice(deviceProps)
+
+  return (
+    <Show when={device()}>
+      {device => {
+        const { scene, setScene } = createScene(propsWithDefault, device)
+
+        createEffect(() => {
+          const target = cProps.target
+          batch(() => {
+            if (isTexture(target)) {
+              setScene('target', target)
+              setScene('canvas', undefined)
+              setScene('context', undefined)
+            } else {
+              setScene('target', undefined)
+              setScene('canvas', target)
+              setScene('context', target.getContext('webgpu')!)
+            }
+          })
+        })
+
+        cProps.ref?.({ scene, render: () => scene.advance() })
+
+        return <SceneContextProvider value={[scene, setScene]}>{cProps.children}</SceneContextProvider>
+      }}
+    </Show>
+  )
+}
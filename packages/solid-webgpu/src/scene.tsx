@@ -0,0 +1,412 @@
+import { Vec3 } from 'math'
+import { Accessor, batch, createEffect, on, onCleanup } from 'solid-js'
+import { createStore } from 'solid-js/store'
+import { CameraRef } from './camera'
+import { createBackground, drawBackground } from './background'
+import { FrameCallback, Frameloop, FrameState, SceneContext } from './context'
+import { createEnvironment } from './environment'
+import { createLights, updateLightClusters } from './lights'
+import { createShadow, shadowPassOffset, updateShadow } from './shadow'
+import {
+  CameraContext,
+  GeometryContext,
+  IndexBufferContext,
+  MaterialContext,
+  MeshContext,
+  LightCulling,
+  OutputColorSpace,
+  ToneMapping,
+  VertexBufferContext
+} from './types'
+
+const tempVec3 = Vec3.create()
+
+export type SceneOptions = {
+  width: number
+  height: number
+  format: GPUTextureFormat
+  autoClear: boolean
+  samples: number
+  frameloop: Frameloop
+  clearColor: GPUColorDict
+  alphaMode: GPUCanvasAlphaMode
+  toneMapping: ToneMapping
+  outputColorSpace: OutputColorSpace
+  lightCulling: LightCulling
+  camera?: CameraRef
+}
+
+/**
+ * create scene store shared by `Canvas` and `RenderTarget`,
+ * draws `renderOrder` into `target` or current texture of `context` on each frame
+ */
+export const createScene = (options: SceneOptions, device: Accessor<GPUDevice>) => {
+  const frameCallbacks: { callback: FrameCallback; priority: number }[] = []
+  const frameState: FrameState = {
+    get scene() {
+      return scene
+    },
+    time: 0,
+    frame: 0
+  }
+  let requestID = 0
+  let lastTime: number | undefined
+
+  const requestFrame = () => {
+    if (requestID || typeof requestAnimationFrame === 'undefined') {
+      return
+    }
+    requestID = requestAnimationFrame(time => {
+      requestID = 0
+      advance(time)
+      if (scene.frameloop === 'always') {
+        requestFrame()
+      } else if (!requestID) {
+        // idle until next invalidate, avoid a huge delta on the next frame
+        lastTime = undefined
+      }
+    })
+  }
+
+  const invalidate = () => {
+    if (scene.frameloop !== 'never') {
+      requestFrame()
+    }
+  }
+
+  const advance = (time: number = performance.now()) => {
+    const delta = lastTime === undefined ? 0 : time - lastTime
+    lastTime = time
+    frameState.time = time
+    frameState.frame++
+    for (const v of frameCallbacks) {
+      v.callback(frameState, delta)
+    }
+    render()
+  }
+
+  const addFrameCallback = (callback: FrameCallback, priority: number) => {
+    const item = { callback, priority }
+    frameCallbacks.push(item)
+    frameCallbacks.sort((a, b) => a.priority - b.priority)
+    invalidate()
+    return () => {
+      const index = frameCallbacks.indexOf(item)
+      if (index !== -1) {
+        frameCallbacks.splice(index, 1)
+      }
+    }
+  }
+
+  const [scene, setScene] = createStore<SceneContext>({
+    width: options.width,
+    height: options.height,
+    format: options.format,
+    autoClear: options.autoClear,
+    samples: options.samples,
+    frameloop: options.frameloop,
+    clearColor: options.clearColor,
+    alphaMode: options.alphaMode,
+    toneMapping: options.toneMapping,
+    outputColorSpace: options.outputColorSpace,
+    lightCulling: options.lightCulling,
+    invalidate,
+    advance,
+    addFrameCallback,
+    device: device(),
+    nodes: {},
+    renderList: [],
+    renderOrder: [],
+    lightList: [],
+    shadow: { layers: [], layerViews: [] },
+    lights: {},
+    environment: { intensity: 1, background: false },
+    background: { top: [0, 0, 0], bottom: [0, 0, 0], intensity: 1 }
+  })
+
+  createEffect(() => setScene('device', device()))
+  createEffect(() => setScene('width', options.width))
+  createEffect(() => setScene('height', options.height))
+  createEffect(() => setScene('format', options.format))
+  createEffect(() => setScene('autoClear', options.autoClear))
+  createEffect(() => setScene('samples', options.samples))
+  createEffect(() => setScene('frameloop', options.frameloop))
+  createEffect(() => setScene('clearColor', options.clearColor))
+  createEffect(() => setScene('alphaMode', options.alphaMode))
+  createEffect(() => setScene('toneMapping', options.toneMapping))
+  createEffect(() => setScene('outputColorSpace', options.outputColorSpace))
+  createEffect(() => setScene('lightCulling', options.lightCulling))
+
+  createEffect(() => setScene('currentCamera', options.camera?.id))
+
+  createLights(scene, setScene)
+  createEnvironment(scene, setScene)
+  createBackground(scene, setScene)
+  createShadow(scene, setScene)
+
+  /**
+   * configure canvas context
+   */
+  createEffect(() => {
+    const { context, device, format, alphaMode, outputColorSpace } = scene
+    if (!context) {
+      return
+    }
+    context.configure({
+      device,
+      format,
+      alphaMode,
+      colorSpace: outputColorSpace === 'display-p3' ? 'display-p3' : 'srgb'
+    })
+  })
+
+  /**
+   * recreate msaa & depth textures
+   */
+  createEffect(() => {
+    const { device, format, width, height, samples } = scene
+    const size = [width, height]
+    const usage = GPUTextureUsage.COPY_DST | GPUTextureUsage.RENDER_ATTACHMENT
+    const sampleCount = samples
+
+    const msaaTexture = device.createTexture({
+      format,
+      size,
+      usage,
+      sampleCount
+    })
+    const depthTexture = device.createTexture({
+      format: 'depth24plus-stencil8',
+      size,
+      usage,
+      sampleCount
+    })
+
+    batch(() => {
+      setScene('msaaTexture', msaaTexture)
+      setScene('msaaTextureView', msaaTexture.createView())
+      setScene('depthTexture', depthTexture)
+      setScene('depthTextureView', depthTexture.createView())
+    })
+
+    onCleanup(() => {
+      msaaTexture.destroy()
+      depthTexture.destroy()
+    })
+  })
+
+  createEffect(() => {
+    if (!scene.currentCamera) {
+      return
+    }
+
+    const camera = scene.nodes[scene.currentCamera] as CameraContext
+    const projectionViewMatrix = camera.projectionViewMatrix()
+
+    const renderOrder = scene.renderList
+      .map(id => {
+        const v = scene.nodes[id] as MeshContext
+        return {
+          m: v.matrix(),
+          id: v.id
+        }
+      })
+      .sort((a, b) => {
+        let res = 0
+        // TODO: handle depthTest disabled
+        const am = a.m
+        const bm = b.m
+
+        Vec3.set(tempVec3, am[12], am[13], am[14])
+        Vec3.transformMat4(tempVec3, tempVec3, projectionViewMatrix)
+        const tempZ = tempVec3.z
+        Vec3.set(tempVec3, bm[12], bm[13], bm[14])
+        Vec3.transformMat4(tempVec3, tempVec3, projectionViewMatrix)
+        res = res || tempZ - tempVec3.z
+        return res
+      })
+      .map(v => v.id)
+
+    setScene('renderOrder', renderOrder)
+  })
+
+  /**
+   * request frames continuously or when anything drawn changed
+   */
+  createEffect(() => {
+    if (scene.frameloop === 'always') {
+      requestFrame()
+    }
+  })
+  const trackDrawn = () => [
+    scene.msaaTextureView,
+    scene.depthTextureView,
+    scene.context,
+    scene.target,
+    ...Object.values(scene.clearColor),
+    scene.shadow.map,
+    scene.background.pipeline,
+    scene.background.bindGroup,
+    scene.background.intensity,
+    scene.environment.intensity,
+    ...Array.from(scene.background.top),
+    ...Array.from(scene.background.bottom),
+    ...scene.renderOrder.flatMap(id => {
+      const mesh = scene.nodes[id] as MeshContext
+      const geo = mesh.geometry ? (scene.nodes[mesh.geometry] as GeometryContext) : undefined
+      const material = mesh.material ? (scene.nodes[mesh.material] as MaterialContext) : undefined
+      return [
+        mesh.pipeline,
+        mesh.shadowPipeline,
+        mesh.shadowBindGroup,
+        material?.bindGroup,
+        geo?.indexBuffer && (scene.nodes[geo.indexBuffer] as IndexBufferContext).buffer,
+        ...(geo?.vertexBuffers.map(v => (scene.nodes[v] as VertexBufferContext).buffer) ?? [])
+      ]
+    })
+  ]
+  createEffect(on(trackDrawn, () => invalidate()))
+  onCleanup(() => {
+    cancelAnimationFrame(requestID)
+    requestID = 0
+  })
+
+  const drawGeometry = (passEncoder: GPURenderPassEncoder, geo: GeometryContext) => {
+    const ib = geo.indexBuffer ? (scene.nodes[geo.indexBuffer] as IndexBufferContext) : null
+    if (ib && ib.buffer) {
+      passEncoder.setIndexBuffer(ib.buffer, `uint${ib.value().BYTES_PER_ELEMENT * 8}` as GPUIndexFormat)
+    }
+    geo.vertexBuffers.forEach((v, i) => {
+      const buffer = (scene.nodes[v] as VertexBufferContext).buffer
+      if (!buffer) {
+        return
+      }
+      passEncoder.setVertexBuffer(i, buffer)
+    })
+
+    const indexBuffer = ib
+    const positionAttr = scene.nodes[geo.vertexBuffers[0]] as VertexBufferContext
+
+    // Alternate drawing for indexed and non-indexed children
+    if (indexBuffer) {
+      const count = Math.min(geo.drawRange.count, indexBuffer.value().length)
+      passEncoder.drawIndexed(count, geo.instanceCount, geo.drawRange.start ?? 0)
+    } else if (positionAttr) {
+      const vertexCount = positionAttr.value().byteLength / (positionAttr.layout.arrayStride || 1)
+      const count = Math.min(geo.drawRange.count, vertexCount)
+      passEncoder.draw(count, geo.instanceCount, geo.drawRange.start ?? 0)
+    } else {
+      passEncoder.draw(3, geo.instanceCount)
+    }
+  }
+
+  const drawMesh = (passEncoder: GPURenderPassEncoder, mesh: MeshContext) => {
+    const pipeline = mesh.pipeline
+    if (!pipeline || !mesh.geometry) {
+      return
+    }
+    passEncoder.setPipeline(pipeline)
+
+    const m = mesh.material ? (scene.nodes[mesh.material] as MaterialContext) : null
+    const bindGroup = m?.bindGroup
+    if (bindGroup) {
+      passEncoder.setBindGroup(0, bindGroup)
+    }
+
+    drawGeometry(passEncoder, scene.nodes[mesh.geometry] as GeometryContext)
+  }
+
+  /**
+   * render depth of shadow casting meshes into each layer of shadow map
+   */
+  const renderShadow = (commandEncoder: GPUCommandEncoder) => {
+    const { shadow, renderList } = scene
+    if (!shadow.layers.length || !shadow.passBindGroup) {
+      return
+    }
+    updateShadow(scene)
+
+    shadow.layers.forEach((layer, i) => {
+      const passEncoder = commandEncoder.beginRenderPass({
+        colorAttachments: [],
+        depthStencilAttachment: {
+          view: shadow.layerViews[i],
+          depthClearValue: 1,
+          depthLoadOp: 'clear',
+          depthStoreOp: 'store'
+        }
+      })
+      passEncoder.setViewport(0, 0, layer.size, layer.size, 0, 1)
+      passEncoder.setBindGroup(1, shadow.passBindGroup!, [shadowPassOffset(i)])
+      for (const id of renderList) {
+        const mesh = scene.nodes[id] as MeshContext
+        if (!mesh.castShadow || !mesh.shadowPipeline || !mesh.shadowBindGroup || !mesh.geometry) {
+          continue
+        }
+        passEncoder.setPipeline(mesh.shadowPipeline)
+        passEncoder.setBindGroup(0, mesh.shadowBindGroup)
+        drawGeometry(passEncoder, scene.nodes[mesh.geometry] as GeometryContext)
+      }
+      passEncoder.end()
+    })
+  }
+
+  const render = () => {
+    const { msaaTextureView, depthTextureView, device, renderOrder, width, height, target, context } = scene
+
+    const texture = target ?? context?.getCurrentTexture()
+    if (!texture || !msaaTextureView || !depthTextureView) {
+      return
+    }
+
+    const resolveTarget = texture.createView()
+    const loadOp: GPULoadOp = scene.autoClear ? 'clear' : 'load'
+    const storeOp: GPUStoreOp = 'store'
+    const commandEncoder = device.createCommandEncoder()
+
+    updateLightClusters(scene, commandEncoder)
+    renderShadow(commandEncoder)
+
+    const colorAttachment: GPURenderPassColorAttachment = {
+      view: msaaTextureView,
+      resolveTarget,
+      loadOp,
+      storeOp,
+      clearValue: { ...scene.clearColor }
+    }
+
+    const passEncoder = commandEncoder.beginRenderPass({
+      colorAttachments: [colorAttachment],
+      depthStencilAttachment: {
+        view: depthTextureView,
+        depthClearValue: 1,
+        depthLoadOp: loadOp,
+        depthStoreOp: storeOp,
+        stencilClearValue: 0,
+        stencilLoadOp: loadOp,
+        stencilStoreOp: storeOp
+      }
+    })
+    passEncoder.setViewport(0, 0, width, height, 0, 1)
+    // opaque first near to far, background fills remaining far plane, then blended meshes far to near on top
+    const opaque: string[] = []
+    const transparent: string[] = []
+    for (const id of renderOrder) {
+      const mesh = scene.nodes[id] as MeshContext
+      const blended = mesh.material && (scene.nodes[mesh.material] as MaterialContext).transparent
+      ;(blended ? transparent : opaque).push(id)
+    }
+    for (const id of opaque) {
+      drawMesh(passEncoder, scene.nodes[id] as MeshContext)
+    }
+    drawBackground(scene, passEncoder)
+    for (const id of transparent.reverse()) {
+      drawMesh(passEncoder, scene.nodes[id] as MeshContext)
+    }
+
+    passEncoder.end()
+    device.queue.submit([commandEncoder.finish()])
+  }
+
+  return { scene, setScene }
+}
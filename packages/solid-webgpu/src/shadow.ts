@@ -0,0 +1,255 @@
+import { Mat4, Vec3 } from 'math'
+import { createEffect, onCleanup } from 'solid-js'
+import { SetStoreFunction } from 'solid-js/store'
+import { SceneContext } from './context'
+import { CameraContext, PunctualLightContext, ShadowLayer } from './types'
+
+/**
+ * only the first lights of `lightList` cast shadows, keep in sync with `shadow_light_num` in default_pbr.wgsl
+ */
+export const MAX_SHADOW_LIGHTS = 4
+export const MAX_SHADOW_LAYERS = MAX_SHADOW_LIGHTS * 6
+/**
+ * struct LightShadow, 48 bytes
+ */
+const LIGHT_SHADOW_STRIDE = 12
+export const SHADOW_BUFFER_LENGTH = MAX_SHADOW_LIGHTS * LIGHT_SHADOW_STRIDE + MAX_SHADOW_LAYERS * 16
+/**
+ * minUniformBufferOffsetAlignment
+ */
+const PASS_BUFFER_STRIDE = 256
+const SHADOW_NEAR = 0.05
+
+const shadowData = new Float32Array(SHADOW_BUFFER_LENGTH)
+const shadowDataView = new DataView(shadowData.buffer)
+const passData = new Float32Array((MAX_SHADOW_LAYERS * PASS_BUFFER_STRIDE) / 4)
+
+const tempView = Mat4.create()
+const tempProjection = Mat4.create()
+const tempInverse = Mat4.create()
+const tempEye = Vec3.create()
+const tempTarget = Vec3.create()
+const tempDirection = Vec3.create()
+const tempOrigin = Vec3.create()
+const tempCorners = Array.from({ length: 8 }, () => Vec3.create())
+const tempCenter = Vec3.create()
+
+const cubeFaces: [Vec3, Vec3][] = [
+  [Vec3.fromValues(1, 0, 0), Vec3.fromValues(0, -1, 0)],
+  [Vec3.fromValues(-1, 0, 0), Vec3.fromValues(0, -1, 0)],
+  [Vec3.fromValues(0, 1, 0), Vec3.fromValues(0, 0, 1)],
+  [Vec3.fromValues(0, -1, 0), Vec3.fromValues(0, 0, -1)],
+  [Vec3.fromValues(0, 0, 1), Vec3.fromValues(0, -1, 0)],
+  [Vec3.fromValues(0, 0, -1), Vec3.fromValues(0, -1, 0)]
+]
+
+export const shadowLayerCount = (light: PunctualLightContext) => {
+  if (!light.castShadow) {
+    return 0
+  }
+  switch (light.lightType) {
+    case 'directional':
+      return Math.max(1, Math.min(4, Math.floor(light.shadowCascades)))
+    case 'point':
+      return 6
+    case 'spot':
+      return 1
+  }
+}
+
+/**
+ * allocate shadow map & buffers of scene
+ */
+export const createShadow = (scene: SceneContext, setScene: SetStoreFunction<SceneContext>) => {
+  createEffect(() => {
+    const { device } = scene
+    const buffer = device.createBuffer({
+      label: 'shadow buffer',
+      size: SHADOW_BUFFER_LENGTH * 4,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST
+    })
+    const passBuffer = device.createBuffer({
+      label: 'shadow pass buffer',
+      size: MAX_SHADOW_LAYERS * PASS_BUFFER_STRIDE,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST
+    })
+    const passBindGroupLayout = device.createBindGroupLayout({
+      entries: [{ binding: 0, visibility: GPUShaderStage.VERTEX, buffer: { hasDynamicOffset: true } }]
+    })
+    const passBindGroup = device.createBindGroup({
+      layout: passBindGroupLayout,
+      entries: [{ binding: 0, resource: { buffer: passBuffer, size: 64 } }]
+    })
+    setScene('shadow', { buffer, passBuffer, passBindGroupLayout, passBindGroup })
+
+    onCleanup(() => {
+      buffer.destroy()
+      passBuffer.destroy()
+    })
+  })
+
+  createEffect(() => {
+    const { device } = scene
+    const layers = scene.lightList.slice(0, MAX_SHADOW_LIGHTS).flatMap(id => {
+      const light = scene.nodes[id] as PunctualLightContext
+      return Array.from(
+        { length: shadowLayerCount(light) },
+        (): ShadowLayer => ({ light: id, size: light.shadowMapSize })
+      )
+    })
+    const size = Math.max(1, ...layers.map(v => v.size))
+    const map = device.createTexture({
+      label: 'shadow map',
+      size: [size, size, Math.max(1, layers.length)],
+      format: 'depth32float',
+      usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING
+    })
+    const layerViews = layers.map((_, i) => map.createView({ dimension: '2d', baseArrayLayer: i, arrayLayerCount: 1 }))
+    setScene('shadow', { map, layers, layerViews })
+
+    onCleanup(() => map.destroy())
+  })
+}
+
+const lookAtDirection = (out: Mat4, eye: Vec3, direction: Vec3) => {
+  const up = Math.abs(direction[1]) > 0.99 ? Vec3.fromValues(0, 0, 1) : Vec3.fromValues(0, 1, 0)
+  Vec3.add(tempTarget, eye, direction)
+  return Mat4.lookAt(out, eye, tempTarget, up)
+}
+
+/**
+ * cascades follow view frustum of camera, split by practical split scheme
+ */
+const directionalShadow = (
+  light: PunctualLightContext,
+  camera: CameraContext,
+  size: number,
+  layerOffset: number,
+  splits: Float32Array
+) => {
+  const cascades = shadowLayerCount(light)
+  Mat4.invert(tempInverse, camera.projectionMatrix())
+  Vec3.transformMat4(tempEye, [0, 0, 0], tempInverse)
+  const near = -tempEye[2]
+  Vec3.transformMat4(tempEye, [0, 0, 1], tempInverse)
+  const cameraFar = -tempEye[2]
+  const far = Math.min(cameraFar, light.shadowDistance)
+
+  Mat4.invert(tempInverse, camera.projectionViewMatrix())
+  const ndcCorners = [-1, 1].flatMap(x => [-1, 1].map(y => [x, y] as const))
+
+  Vec3.normalize(tempDirection, Vec3.negate(tempDirection, light.matrix().subarray(8, 11) as Vec3))
+
+  let splitNear = near
+  for (let i = 0; i < cascades; i++) {
+    const ratio = (i + 1) / cascades
+    const splitFar = 0.5 * near * Math.pow(far / near, ratio) + 0.5 * (near + (far - near) * ratio)
+    splits[i] = splitFar
+
+    Vec3.set(tempCenter, 0, 0, 0)
+    ndcCorners.forEach(([x, y], j) => {
+      const n = Vec3.transformMat4(tempEye, [x, y, 0], tempInverse)
+      const f = Vec3.transformMat4(tempTarget, [x, y, 1], tempInverse)
+      Vec3.lerp(tempCorners[j * 2], n, f, (splitNear - near) / (cameraFar - near))
+      Vec3.lerp(tempCorners[j * 2 + 1], n, f, (splitFar - near) / (cameraFar - near))
+    })
+    tempCorners.forEach(v => Vec3.add(tempCenter, tempCenter, v))
+    Vec3.scale(tempCenter, tempCenter, 1 / 8)
+    const radius = Math.ceil(Math.max(...tempCorners.map(v => Vec3.distance(v, tempCenter))) * 16) / 16
+
+    Vec3.scaleAndAdd(tempOrigin, tempCenter, tempDirection, -radius * 3)
+    lookAtDirection(tempView, tempOrigin, tempDirection)
+    Mat4.orthoZO(tempProjection, -radius, radius, -radius, radius, 0, radius * 4)
+
+    const vp = passData.subarray(
+      ((layerOffset + i) * PASS_BUFFER_STRIDE) / 4,
+      ((layerOffset + i) * PASS_BUFFER_STRIDE) / 4 + 16
+    )
+    Mat4.mul(vp, tempProjection, tempView)
+
+    // snap to texel to avoid shimmering
+    Vec3.transformMat4(tempOrigin, [0, 0, 0], vp)
+    const half = size / 2
+    tempProjection[12] += Math.round(tempOrigin[0] * half) / half - tempOrigin[0]
+    tempProjection[13] += Math.round(tempOrigin[1] * half) / half - tempOrigin[1]
+    Mat4.mul(vp, tempProjection, tempView)
+
+    splitNear = splitFar
+  }
+}
+
+const perspectiveShadow = (light: PunctualLightContext, layerOffset: number) => {
+  const m = light.matrix()
+  Vec3.set(tempEye, m[12], m[13], m[14])
+  const far = light.range !== undefined && Number.isFinite(light.range) ? light.range : light.shadowDistance
+
+  const faces: [Vec3, Vec3 | undefined][] =
+    light.lightType === 'point'
+      ? cubeFaces
+      : [[Vec3.normalize(tempDirection, Vec3.negate(tempDirection, m.subarray(8, 11) as Vec3)), undefined]]
+  const fov = light.lightType === 'point' ? Math.PI / 2 : Math.min(Math.PI * 0.95, light.outerConeAngle * 2)
+  Mat4.perspectiveZO(tempProjection, fov, 1, SHADOW_NEAR, far)
+
+  faces.forEach(([direction, up], i) => {
+    if (up) {
+      Vec3.add(tempTarget, tempEye, direction)
+      Mat4.lookAt(tempView, tempEye, tempTarget, up)
+    } else {
+      lookAtDirection(tempView, tempEye, direction)
+    }
+    const offset = ((layerOffset + i) * PASS_BUFFER_STRIDE) / 4
+    Mat4.mul(passData.subarray(offset, offset + 16), tempProjection, tempView)
+  })
+}
+
+/**
+ * compute light view projection matrices of current frame and upload them
+ */
+export const updateShadow = (scene: SceneContext) => {
+  const { device, shadow, lightList, currentCamera } = scene
+  if (!shadow.buffer || !shadow.passBuffer) {
+    return
+  }
+  const camera = currentCamera ? (scene.nodes[currentCamera] as CameraContext) : undefined
+  const size = shadow.map?.width ?? 1
+
+  let layerOffset = 0
+  for (let i = 0; i < MAX_SHADOW_LIGHTS; i++) {
+    const offset = i * LIGHT_SHADOW_STRIDE
+    const light = lightList[i] ? (scene.nodes[lightList[i]] as PunctualLightContext) : undefined
+    const count = light ? shadowLayerCount(light) : 0
+    const splits = shadowData.subarray(offset + 4, offset + 8)
+
+    if (!light || !count || (light.lightType === 'directional' && !camera)) {
+      shadowDataView.setInt32(offset * 4, -1, true)
+      layerOffset += count
+      continue
+    }
+
+    shadowDataView.setInt32(offset * 4, layerOffset, true)
+    shadowDataView.setUint32((offset + 1) * 4, count, true)
+    shadowData[offset + 2] = light.shadowBias
+    shadowData[offset + 3] = light.shadowNormalBias
+    shadowData[offset + 8] = light.shadowMapSize / size
+
+    if (light.lightType === 'directional') {
+      directionalShadow(light, camera!, light.shadowMapSize, layerOffset, splits)
+    } else {
+      perspectiveShadow(light, layerOffset)
+    }
+
+    for (let j = 0; j < count; j++) {
+      const from = ((layerOffset + j) * PASS_BUFFER_STRIDE) / 4
+      shadowData.set(
+        passData.subarray(from, from + 16),
+        MAX_SHADOW_LIGHTS * LIGHT_SHADOW_STRIDE + (layerOffset + j) * 16
+      )
+    }
+    layerOffset += count
+  }
+
+  device.queue.writeBuffer(shadow.buffer, 0, shadowData)
+  device.queue.writeBuffer(shadow.passBuffer, 0, passData, 0, (layerOffset * PASS_BUFFER_STRIDE) / 4)
+}
+
+export const shadowPassOffset = (layer: number) => layer * PASS_BUFFER_STRIDE
@@ -0,0 +1,42 @@
+struct VertexInput {
+    @location(0) POSITION: vec3<f32>,
+    @location(4) JOINTS_0: vec4<u32>,
+    @location(5) WEIGHTS_0: vec4<f32>,
+};
+
+struct MorphDelta {
+    position: vec3<f32>,
+    normal: vec3<f32>,
+    tangent: vec3<f32>,
+}
+
+struct MorphTargets {
+    vertex_count: u32,
+    target_count: u32,
+    deltas: array<MorphDelta>,
+}
+
+struct BaseUniforms {
+    model: mat4x4<f32>,
+};
+
+@group(0) @binding(0)
+var<uniform> uniforms: BaseUniforms;
+
+@group(0) @binding(1)
+var<storage, read> joint_matrices: array<mat4x4<f32>>;
+
+@group(0) @binding(2)
+var<storage, read> morph_targets: MorphTargets;
+
+@group(0) @binding(3)
+var<storage, read> morph_weights: array<f32>;
+
+@group(1) @binding(0)
+var<uniform> light_view_projection: mat4x4<f32>;
+
+@vertex
+fn vs_main(input: VertexInput, @builtin(vertex_index) vertex_index: u32) -> @builtin(position) vec4<f32> {
+    let model = uniforms.model * skin_matrix(input.JOINTS_0, input.WEIGHTS_0);
+    return light_view_projection * model * vec4<f32>(morph_position(vertex_index, input.POSITION), 1.0);
+}
@@ -0,0 +1,87 @@
+import { Mat4 } from 'math'
+import { createEffect, onCleanup } from 'solid-js'
+import { createStore } from 'solid-js/store'
+import { useMeshContext, useSceneContext } from './context'
+import { createNodeContext } from './object3d'
+import { NodeProps, NodeRef, Object3DContext, SkeletonContext, SkeletonExtra } from './types'
+
+export type SkeletonRef = NodeRef<SkeletonContext>
+export type SkeletonProps = NodeProps<SkeletonContext> & {
+  /**
+   * node ids of joint `Object3D`s, joint matrices are written once all of them are mounted
+   */
+  joints: (string | undefined)[]
+  /**
+   * one column major mat4 per joint, identity when omitted
+   */
+  inverseBindMatrices?: Float32Array
+}
+
+const JOINT_MATRIX_LENGTH = 16
+const tempInverse = Mat4.create()
+
+/**
+ * joint matrices of a skinned `Mesh` in a storage buffer, relative to the mesh,
+ * materials switch to the skinned vertex variant when geometry has `JOINTS_0` and `WEIGHTS_0`
+ */
+export const Skeleton = (props: SkeletonProps) => {
+  const { store: _s, setStore: _setS } = createNodeContext(['Skeleton'], props, {
+    joints: []
+  } satisfies SkeletonExtra)
+  const [scene] = useSceneContext()
+  const id = _s.id
+
+  const [store, setStore] = createStore(scene.nodes[id] as SkeletonContext)
+
+  createEffect(() => setStore('joints', props.joints))
+  createEffect(() => setStore('inverseBindMatrices', props.inverseBindMatrices))
+
+  props.ref?.(store)
+
+  const [mesh, setMesh] = useMeshContext()
+  setMesh('skeleton', id)
+  onCleanup(() => setMesh('skeleton', undefined))
+
+  createEffect(() => {
+    const { device } = scene
+    const buffer = device.createBuffer({
+      label: `skeleton ${id}`,
+      size: Math.max(store.joints.length, 1) * JOINT_MATRIX_LENGTH * 4,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST
+    })
+    setStore('buffer', buffer)
+
+    onCleanup(() => buffer.destroy())
+  })
+
+  /**
+   * update joint matrices whenever a joint or the mesh moves
+   */
+  createEffect(() => {
+    const { device } = scene
+    const { buffer, joints, inverseBindMatrices } = store
+    if (!buffer) {
+      return
+    }
+    const nodes = joints.map(v => (v ? (scene.nodes[v] as Object3DContext | undefined) : undefined))
+    if (nodes.some(v => !v)) {
+      return
+    }
+
+    const data = new Float32Array(joints.length * JOINT_MATRIX_LENGTH)
+    Mat4.invert(tempInverse, mesh.matrix())
+    nodes.forEach((node, i) => {
+      const offset = i * JOINT_MATRIX_LENGTH
+      const jointMatrix = data.subarray(offset, offset + JOINT_MATRIX_LENGTH)
+      Mat4.mul(jointMatrix, tempInverse, node!.matrix())
+      if (inverseBindMatrices) {
+        Mat4.mul(jointMatrix, jointMatrix, inverseBindMatrices.subarray(offset, offset + JOINT_MATRIX_LENGTH))
+      }
+    })
+    device.queue.writeBuffer(buffer, 0, data)
+    // bind group stays the same, request frame manually
+    scene.invalidate()
+  })
+
+  return null
+}
@@ -1,6 +1,8 @@
-import type { Mat4, Quat, Vec3 } from 'math'
+import type { Mat4, Quat, Vec2Like, Vec3, Vec3Like } from 'math'
 import type { Accessor, JSX, Setter } from 'solid-js'
 import type { SetStoreFunction } from 'solid-js/store'
+import type { PBRMaterialProps } from './material/pbr_material'
+import type { UnlitMaterialProps } from './material/unlit_material'
 
 export type Optional<T, K extends keyof T> = Partial<Pick<T, K>> & Omit<T, K>
 
@@ -31,6 +33,10 @@ export type ImageRepresentation =
 //   video?: HTMLVideoElement
 // }
 
+export type ToneMapping = 'none' | 'aces' | 'reinhard' | 'agx'
+export type OutputColorSpace = 'srgb' | 'linear' | 'display-p3'
+export type LightCulling = 'none' | 'clustered'
+
 export type MaybeAccessor<T> = T | Accessor<T>
 export type MaybeAccessorValue<T extends MaybeAccessor<unknown>> = T extends () => any ? ReturnType<T> : T
 
@@ -82,20 +88,80 @@ export type PunctualLightExtra = {
   lightType: 'directional' | 'point' | 'spot'
   innerConeAngle: number
   outerConeAngle: number
+
+  castShadow: boolean
+  /**
+   * resolution of each shadow map layer
+   */
+  shadowMapSize: number
+  /**
+   * depth bias in shadow map space
+   */
+  shadowBias: number
+  /**
+   * offset along surface normal in world space
+   */
+  shadowNormalBias: number
+  /**
+   * cascades of directional light, up to 4
+   */
+  shadowCascades: number
+  /**
+   * max distance covered by shadow when range is unbounded
+   */
+  shadowDistance: number
 }
 export type PunctualLightContext = Object3DContext & PunctualLightExtra
 
 export type MeshExtra = {
   geometry?: string
   material?: string
+  skeleton?: string
+  castShadow: boolean
+  receiveShadow: boolean
+  /**
+   * weight per morph target of geometry
+   */
+  morphWeights: Accessor<ArrayLike<number>>
+  setMorphWeights: Setter<ArrayLike<number>>
+  morphWeightsBuffer?: GPUBuffer
 
   pipeline?: GPURenderPipeline
+  shadowPipeline?: GPURenderPipeline
+  shadowBindGroup?: GPUBindGroup
 }
 export type MeshContext = Object3DContext & MeshExtra
 
+export type SkeletonExtra = {
+  joints: (string | undefined)[]
+  inverseBindMatrices?: Float32Array
+  /**
+   * joint matrices, bound as `joints` built-in buffer
+   */
+  buffer?: GPUBuffer
+}
+export type SkeletonContext = NodeContext & SkeletonExtra
+
+/**
+ * per vertex deltas of a blend shape, missing attributes are not displaced
+ */
+export type MorphTarget = {
+  POSITION?: Float32Array
+  NORMAL?: Float32Array
+  /**
+   * xyz only, handedness stays
+   */
+  TANGENT?: Float32Array
+}
+
 export type GeometryExtra = {
   vertexBuffers: string[]
   indexBuffer?: string
+  morphTargets: MorphTarget[]
+  /**
+   * morph target deltas, bound as `morph_targets` built-in buffer
+   */
+  morphBuffer?: GPUBuffer
 
   topology: GPUPrimitiveTopology
   instanceCount: number
@@ -103,28 +169,61 @@ export type GeometryExtra = {
 }
 export type GeometryContext = NodeContext & GeometryExtra
 
+/**
+ * attribute of a vertex buffer bound to the shader input of the same name, e.g. `POSITION` or `COLOR_0`
+ */
+export type VertexAttribute = {
+  name: string
+  /**
+   * wgsl type, derived from `format` when omitted
+   */
+  type?: string
+  format: GPUVertexFormat
+  /**
+   * byte offset inside a vertex of an interleaved buffer
+   */
+  offset: number
+}
+
+/**
+ * changed part of a buffer value, in elements of a typed array or bytes of an array buffer
+ */
+export type BufferRange = { offset: number; length: number }
+/**
+ * replace or update buffer data in place, only `range` is uploaded when given
+ */
+export type BufferValueSetter<T> = (value: T | ((prev: T) => T), range?: BufferRange) => T
+
 export type VertexBufferExtra = {
-  attribute?: {
-    name: string
-    type: string
-  }
+  /**
+   * named attributes, `Mesh` assigns their shader locations
+   */
+  attributes: Required<VertexAttribute>[]
+  /**
+   * shader locations of unnamed attributes are used as is
+   */
   layout: GPUVertexBufferLayout
   value: Accessor<TypedArray>
-  setValue: Setter<TypedArray>
+  setValue: BufferValueSetter<TypedArray>
   buffer?: GPUBuffer
 }
 export type VertexBufferContext = NodeContext & VertexBufferExtra
 
 export type IndexBufferExtra = {
   value: Accessor<TypedArray>
-  setValue: Setter<TypedArray>
+  setValue: BufferValueSetter<TypedArray>
   buffer?: GPUBuffer
   // arrayStride: number
 }
 export type IndexBufferContext = NodeContext & IndexBufferExtra
 
+/**
+ * inputs of a built-in material, read back by exporters
+ */
+export type MaterialModel = { type: 'pbr'; props: PBRMaterialProps } | { type: 'unlit'; props: UnlitMaterialProps }
 export type MaterialExtra = {
   uniforms: string[]
+  model: Accessor<MaterialModel | undefined>
   shaderCode: string
   cullMode: GPUCullMode
   transparent: boolean
@@ -138,23 +237,144 @@ export type MaterialExtra = {
 }
 export type MaterialContext = NodeContext & MaterialExtra
 
+/**
+ * pre-mipmapped levels of a block compressed or uncompressed format, e.g. transcoded from KTX2
+ */
+export type CompressedTextureImage = {
+  format: GPUTextureFormat
+  width: number
+  height: number
+  /**
+   * level 0 first, rows of texel blocks tightly packed
+   */
+  levels: { data: Uint8Array; width: number; height: number }[]
+}
+/**
+ * transform of texture coordinates, applied as translation * rotation * scale
+ */
+export type TextureTransform = {
+  offset?: Vec2Like
+  /**
+   * radians, counter-clockwise
+   */
+  rotation?: number
+  scale?: Vec2Like
+}
+/**
+ * image with its own sampler & coordinate transform, defaults to linear filtering, repeat and no transform
+ */
+export type TextureSource =
+  | ImageBitmap
+  | CompressedTextureImage
+  | { image: ImageBitmap | CompressedTextureImage; sampler?: GPUSamplerDescriptor; transform?: TextureTransform }
 export type SamplerExtra = {
   descriptor: GPUSamplerDescriptor
   sampler?: GPUSampler
 }
 export type SamplerContext = NodeContext & SamplerExtra
+export type TextureImage = ImageBitmap | ImageData | HTMLCanvasElement | OffscreenCanvas
 export type TextureExtra = {
   descriptor: Optional<GPUTextureDescriptor, 'usage' | 'format'>
-  image?: ImageBitmap | ImageData | HTMLCanvasElement | OffscreenCanvas
+  /**
+   * an array is copied into layers in order, e.g. cube faces +X, -X, +Y, -Y, +Z, -Z
+   */
+  image?: TextureImage | TextureImage[]
+  /**
+   * uploaded instead of `image`, format, size and mip level count of `descriptor` follow it
+   */
+  compressed?: CompressedTextureImage
+  /**
+   * allocate the full mip chain and fill it from level 0 after each upload
+   */
+  generateMipmaps?: boolean
   texture?: GPUTexture
+  sampleType?: GPUTextureSampleType
+  viewDimension?: GPUTextureViewDimension
 }
 export type TextureContext = NodeContext & TextureExtra
 export type UniformBufferExtra = {
   value: Accessor<TypedArray | ArrayBuffer>
-  setValue: Setter<TypedArray | ArrayBuffer>
+  setValue: BufferValueSetter<TypedArray | ArrayBuffer>
   builtIn?: string
+  /**
+   * binding type in material layout, defaults to `uniform`
+   */
+  bufferType?: GPUBufferBindingType
   buffer?: GPUBuffer
 }
 export type UniformBufferContext = NodeContext & UniformBufferExtra
+export type ShadowLayer = {
+  light: string
+  size: number
+}
+export type ShadowContext = {
+  /**
+   * one layer per cascade / spot light / cube face
+   */
+  map?: GPUTexture
+  layers: ShadowLayer[]
+  layerViews: GPUTextureView[]
+  /**
+   * shadow info & view projection matrices of all layers, bound by materials
+   */
+  buffer?: GPUBuffer
+  passBuffer?: GPUBuffer
+  passBindGroupLayout?: GPUBindGroupLayout
+  passBindGroup?: GPUBindGroup
+}
+export type LightsContext = {
+  /**
+   * storage buffer with light count, cluster params and all punctual lights, bound by materials
+   */
+  buffer?: GPUBuffer
+  /**
+   * light indices of each cluster, written by culling compute pass
+   */
+  clusterBuffer?: GPUBuffer
+  clusterUniformBuffer?: GPUBuffer
+  clusterPipeline?: GPUComputePipeline
+  clusterBindGroup?: GPUBindGroup
+}
+export type EnvironmentContext = {
+  /**
+   * intensity, enabled flag & specular mip count, bound by materials
+   */
+  buffer?: GPUBuffer
+  cube?: GPUTexture
+  irradiance?: GPUTexture
+  specular?: GPUTexture
+  brdfLut?: GPUTexture
+  /**
+   * bound in place of missing environment textures
+   */
+  placeholderCube?: GPUTexture
+  placeholderLut?: GPUTexture
+  intensity: number
+  /**
+   * draw environment cube behind the scene
+   */
+  background: boolean
+}
+export type BackgroundType = 'color' | 'gradient' | 'equirect' | 'cube'
+export type BackgroundContext = {
+  /**
+   * set by `Background`, falls back to environment cube when `Environment` has `background`
+   */
+  backgroundType?: BackgroundType
+  /**
+   * sRGB colors of solid color or gradient
+   */
+  top: Vec3Like
+  bottom: Vec3Like
+  /**
+   * equirectangular 2d texture or cube texture
+   */
+  texture?: GPUTexture
+  intensity: number
+  pipeline?: GPURenderPipeline
+  bindGroup?: GPUBindGroup
+  buffer?: GPUBuffer
+}
+
 // TODO: external texture ?
 export type UniformContext = SamplerContext | TextureContext | UniformBufferContext
@@ -0,0 +1,11 @@
+import { onCleanup } from 'solid-js'
+import { FrameCallback, useSceneContext } from './context'
+
+/**
+ * run callback inside render loop before drawing,
+ * callbacks with lower priority run first
+ */
+export const useFrame = (callback: FrameCallback, priority = 0) => {
+  const [scene] = useSceneContext()
+  onCleanup(scene.addFrameCallback(callback, priority))
+}
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { createRoot } from 'solid-js'
+import { createBufferValue, syncBufferValue } from './utils'
+
+Object.assign(globalThis, { GPUBufferUsage: { COPY_DST: 8, STORAGE: 128, UNIFORM: 64 } })
+
+/**
+ * records buffers and `writeBuffer` calls as `[buffer index, offset, bytes]`
+ */
+const createDevice = () => {
+  const buffers: { size: number; destroyed: boolean }[] = []
+  const writes: [number, number, number[]][] = []
+  const device = {
+    createBuffer: ({ size }: GPUBufferDescriptor) => {
+      const buffer = { size, destroyed: false, destroy: () => (buffer.destroyed = true) }
+      buffers.push(buffer)
+      return buffer
+    },
+    queue: {
+      writeBuffer: (buffer: GPUBuffer, offset: number, data: Uint8Array, dataOffset = 0, size?: number) => {
+        const bytes = data.subarray(dataOffset, size === undefined ? undefined : dataOffset + size)
+        writes.push([buffers.indexOf(buffer as never), offset, [...bytes]])
+      }
+    }
+  }
+  return { device: device as unknown as GPUDevice, buffers, writes }
+}
+
+test('setValue records the changed byte range until it is taken', () => {
+  const value = createBufferValue(new Float32Array(8))
+  assert.deepEqual(value.takeDirty(), { start: 0, end: Infinity })
+  assert.equal(value.takeDirty(), undefined)
+
+  value.setValue(v => v, { offset: 2, length: 3 })
+  value.setValue(v => v, { offset: 6, length: 1 })
+  assert.deepEqual(value.takeDirty(), { start: 8, end: 28 })
+  value.setValue(new Float32Array(8))
+  assert.deepEqual(value.takeDirty(), { start: 0, end: Infinity })
+})
+
+test('syncBufferValue writes changed bytes in place aligned to 4 bytes and grows by half', () => {
+  const { device, buffers, writes } = createDevice()
+  const value = createBufferValue(new Uint8Array([1, 2, 3, 4, 5, 6]))
+  const bound: number[] = []
+  let invalidated = 0
+
+  const dispose = createRoot(dispose => {
+    syncBufferValue({
+      device,
+      value,
+      usage: GPUBufferUsage.UNIFORM,
+      setBuffer: buffer => bound.push(buffers.indexOf(buffer as never)),
+      invalidate: () => invalidated++
+    })
+    return dispose
+  })
+  // tail padded to the aligned buffer size
+  assert.equal(buffers[0].size, 8)
+  assert.deepEqual(writes, [[0, 0, [1, 2, 3, 4, 5, 6, 0, 0]]])
+
+  value.setValue(
+    v => {
+      v[5] = 9
+      return v
+    },
+    { offset: 5, length: 1 }
+  )
+  assert.deepEqual(writes[1], [0, 4, [5, 9, 0, 0]])
+  assert.equal(invalidated, 1)
+
+  value.setValue(new Uint8Array(10).fill(7))
+  assert.equal(buffers[1].size, 12)
+  assert.ok(buffers[0].destroyed)
+  assert.deepEqual(writes[2], [1, 0, [7, 7, 7, 7, 7, 7, 7, 7, 7, 7, 0, 0]])
+  assert.deepEqual(bound, [0, 1])
+
+  dispose()
+  assert.ok(buffers[1].destroyed)
+})
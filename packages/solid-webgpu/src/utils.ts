@@ -1,4 +1,6 @@
-import { MaybeAccessor, MaybeAccessorValue, TypedArray } from './types'
+import { Mat4 } from 'math'
+import { createEffect, createSignal, onCleanup, untrack } from 'solid-js'
+import { BufferValueSetter, MaybeAccessor, MaybeAccessorValue, TypedArray } from './types'
 
 // export const createWithCache = (cache: Map<string, unknown>) => {
 //   return <T>(key: string, fn: () => T, options?: { stale?: (old: T) => boolean }) => {
@@ -48,3 +50,127 @@ export const createBuffer = (options: {
   device.queue.writeBuffer(buffer, 0, data)
   return buffer
 }
+
+/**
+ * signal of buffer data, the setter records which bytes changed since the last upload
+ */
+export const createBufferValue = <T extends TypedArray | ArrayBuffer>(initial: T) => {
+  const [value, set] = createSignal(initial, { equals: false })
+  // the first upload writes everything
+  let dirty: { start: number; end: number } | undefined = { start: 0, end: Infinity }
+
+  const setValue: BufferValueSetter<T> = (next, range) => {
+    const data = typeof next === 'function' ? next(untrack(value)) : next
+    const bytesPerElement = data instanceof ArrayBuffer ? 1 : data.BYTES_PER_ELEMENT
+    const start = range ? range.offset * bytesPerElement : 0
+    const end = range ? (range.offset + range.length) * bytesPerElement : Infinity
+    // recorded first, effects run synchronously inside `set`
+    dirty = dirty ? { start: Math.min(dirty.start, start), end: Math.max(dirty.end, end) } : { start, end }
+    return set(() => data)
+  }
+  /**
+   * byte range changed since the last call
+   */
+  const takeDirty = () => {
+    const range = dirty
+    dirty = undefined
+    return range
+  }
+  return { value, setValue, takeDirty }
+}
+
+const align4 = (v: number) => Math.ceil(v / 4) * 4
+
+/**
+ * `writeBuffer` needs 4 byte aligned offsets and sizes, the tail is padded with zeros
+ */
+const writeBytes = (device: GPUDevice, buffer: GPUBuffer, bytes: Uint8Array, start: number, end: number) => {
+  start = Math.floor(start / 4) * 4
+  end = Math.min(align4(end), buffer.size)
+  if (end <= start) {
+    return
+  }
+  if (end <= bytes.byteLength) {
+    device.queue.writeBuffer(buffer, start, bytes, start, end - start)
+    return
+  }
+  const padded = new Uint8Array(end - start)
+  padded.set(bytes.subarray(start))
+  device.queue.writeBuffer(buffer, start, padded)
+}
+
+/**
+ * keep a GPU buffer in sync with a buffer value for the lifetime of the calling scope,
+ * changed bytes are written in place and a new buffer is created only once the value outgrows its capacity
+ */
+export const syncBufferValue = (options: {
+  device: GPUDevice
+  value: Pick<ReturnType<typeof createBufferValue>, 'value' | 'takeDirty'>
+  usage: GPUBufferUsageFlags
+  label?: string
+  setBuffer: (buffer: GPUBuffer) => void
+  /**
+   * request a frame after in place writes, bind groups of a new buffer do it themselves
+   */
+  invalidate: () => void
+}) => {
+  const { device, value, usage, label } = options
+  let buffer: GPUBuffer | undefined
+
+  createEffect(() => {
+    const data = value.value()
+    const dirty = value.takeDirty()
+    const bytes =
+      data instanceof ArrayBuffer ? new Uint8Array(data) : new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    if (!buffer || buffer.size < bytes.byteLength) {
+      buffer?.destroy()
+      // capacity grows by half at least, so growing values rarely reallocate
+      const size = align4(Math.max(bytes.byteLength, buffer ? buffer.size * 1.5 : 0, 4))
+      buffer = device.createBuffer({ label, size, usage: usage | GPUBufferUsage.COPY_DST | GPUBufferUsage.STORAGE })
+      writeBytes(device, buffer, bytes, 0, bytes.byteLength)
+      options.setBuffer(buffer)
+      return
+    }
+    if (dirty) {
+      writeBytes(device, buffer, bytes, dirty.start, Math.min(dirty.end, bytes.byteLength))
+      options.invalidate()
+    }
+  })
+  onCleanup(() => buffer?.destroy())
+}
+
+/**
+ * component count, byte size and wgsl type of a vertex format
+ */
+export const vertexFormatInfo = (format: GPUVertexFormat) => {
+  if (format === 'unorm10-10-10-2') {
+    return { components: 4, byteSize: 4, type: 'vec4<f32>' }
+  }
+  const [, kind, bits, count = '1'] = format.match(/^([a-z]+)(\d+)(?:x(\d))?/)!
+  const components = Number(count)
+  const scalar = kind === 'uint' ? 'u32' : kind === 'sint' ? 'i32' : 'f32'
+  return {
+    components,
+    byteSize: (Number(bits) / 8) * components,
+    type: components > 1 ? `vec${components}<${scalar}>` : scalar
+  }
+}
+
+const storagePlaceholders = new WeakMap<GPUDevice, GPUBuffer>()
+
+/**
+ * storage buffer bound in place of missing mesh owned buffers, holds an identity matrix
+ */
+export const getStoragePlaceholder = (device: GPUDevice) => {
+  let buffer = storagePlaceholders.get(device)
+  if (!buffer) {
+    buffer = device.createBuffer({
+      label: 'storage placeholder buffer',
+      size: 64,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST
+    })
+    device.queue.writeBuffer(buffer, 0, Mat4.create())
+    storagePlaceholders.set(device, buffer)
+  }
+  return buffer
+}